@@ -1,6 +1,9 @@
 import { NextResponse, type NextRequest } from "next/server";
+import { hasRole, requiredRole } from "@/lib/models";
+import { sessionRole } from "@/lib/session";
+import type { ApiErrorBody } from "@/lib/upstream";
 
-export function middleware(req: NextRequest) {
+export async function middleware(req: NextRequest) {
   const { pathname } = req.nextUrl;
   const token = req.cookies.get("auth_token")?.value;
   const allCookies = req.cookies.getAll();
@@ -11,7 +14,8 @@ export function middleware(req: NextRequest) {
     hasToken: !!token,
     tokenLength: token?.length || 0,
     allCookies: allCookies.map((c) => c.name),
-    url: req.url,
+    // Without the query string, which may carry secrets
+    url: `${req.nextUrl.origin}${pathname}`,
   });
 
   // Allow public paths
@@ -22,7 +26,11 @@ export function middleware(req: NextRequest) {
     "/api/login",
     "/api/logout",
     "/api/session",
+    // Checks its own cookies: a refresh token outlives the access token
+    "/api/refresh",
     "/api/debug",
+    // Authenticated with its own feed token, see BLOCKLIST_FEED_TOKEN
+    "/api/blocklist/",
   ];
   if (publicPaths.some((p) => pathname.startsWith(p))) {
     // If already authenticated and trying to visit login, redirect to dashboard
@@ -44,6 +52,25 @@ export function middleware(req: NextRequest) {
     return NextResponse.redirect(url);
   }
 
+  // Same policy as the API routes; pages the role can't use fall back to
+  // the dashboard
+  const required = requiredRole(pathname, req.method);
+  if (!hasRole(await sessionRole(token), required)) {
+    if (pathname.startsWith("/api/")) {
+      const body: ApiErrorBody = {
+        error: `This action requires the ${required} role`,
+        code: "forbidden",
+        upstreamStatus: null,
+        requestId: req.headers.get("x-request-id"),
+      };
+      return NextResponse.json(body, { status: 403 });
+    }
+    const url = req.nextUrl.clone();
+    url.pathname = "/";
+    url.search = "";
+    return NextResponse.redirect(url);
+  }
+
   return NextResponse.next();
 }
 
@@ -3,7 +3,7 @@
 
 import { Suspense, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { useAuth } from "@/contexts/AuthContext";
+import { LoginError, useAuth } from "@/contexts/AuthContext";
 
 function LoginForm() {
   const router = useRouter();
@@ -13,6 +13,11 @@ function LoginForm() {
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set once upstream asks for a second factor; the password is kept so
+  // the code can be sent along with it
+  const [needsSecondFactor, setNeedsSecondFactor] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
 
   // Check for session expiration message
   const reason = params.get("reason");
@@ -30,7 +35,13 @@ function LoginForm() {
 
     try {
       console.log("[LOGIN] Starting login...");
-      await login(email, password);
+      if (!needsSecondFactor) {
+        await login(email, password);
+      } else if (useRecoveryCode) {
+        await login(email, password, { twoFactorRecoveryCode: code });
+      } else {
+        await login(email, password, { twoFactorCode: code });
+      }
       console.log("[LOGIN] Login successful");
 
       // Redirect after login completes
@@ -39,19 +50,46 @@ function LoginForm() {
       router.replace(next);
     } catch (err: any) {
       console.error("[LOGIN] Login failed:", err);
-      setError(err?.message || "Login failed");
       setLoading(false);
+      if (err instanceof LoginError && err.code === "two_factor_required") {
+        // Not an error: the credentials were accepted, ask for the code
+        setNeedsSecondFactor(true);
+        setError(null);
+        return;
+      }
+      if (err instanceof LoginError && err.code === "invalid_two_factor_code") {
+        setCode("");
+      }
+      setError(err?.message || "Login failed");
     }
   }
 
+  function switchCodeType() {
+    setUseRecoveryCode((v) => !v);
+    setCode("");
+    setError(null);
+  }
+
+  function startOver() {
+    setNeedsSecondFactor(false);
+    setUseRecoveryCode(false);
+    setCode("");
+    setPassword("");
+    setError(null);
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center px-4 bg-gray-50">
       <div className="w-full max-w-sm bg-white shadow rounded-lg p-6">
         <div className="mb-6 text-center">
           <h1 className="text-2xl font-bold text-gray-900">BMDRM Security</h1>
-          <p className="mt-1 text-sm text-gray-600">Sign in to continue</p>
+          <p className="mt-1 text-sm text-gray-600">
+            {needsSecondFactor
+              ? "Two-factor authentication"
+              : "Sign in to continue"}
+          </p>
         </div>
-        {sessionMessage && (
+        {sessionMessage && !needsSecondFactor && (
           <div className="mb-4 rounded border border-yellow-200 bg-yellow-50 px-3 py-2 text-sm text-yellow-800">
             {sessionMessage}
           </div>
@@ -61,38 +99,91 @@ function LoginForm() {
             {error}
           </div>
         )}
-        <form onSubmit={onSubmit} className="space-y-3">
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              Email
-            </label>
-            <input
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              required
-              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              Password
-            </label>
-            <input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
-          <button
-            type="submit"
-            disabled={loading}
-            className="w-full inline-flex items-center justify-center rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-60">
-            {loading ? "Signing in..." : "Sign in"}
-          </button>
-        </form>
+        {needsSecondFactor ? (
+          <form onSubmit={onSubmit} className="space-y-3">
+            <div>
+              <label
+                htmlFor="login-code"
+                className="block text-sm font-medium text-gray-700">
+                {useRecoveryCode ? "Recovery code" : "Authentication code"}
+              </label>
+              <p className="mt-1 text-xs text-gray-500">
+                {useRecoveryCode
+                  ? "Enter one of the recovery codes you saved when setting up two-factor authentication. Each code works once."
+                  : "Enter the 6-digit code shown in your authenticator app."}
+              </p>
+              <input
+                id="login-code"
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode={useRecoveryCode ? "text" : "numeric"}
+                pattern={useRecoveryCode ? undefined : "[0-9 ]{6,7}"}
+                maxLength={useRecoveryCode ? 64 : 7}
+                placeholder={useRecoveryCode ? "" : "123456"}
+                className="mt-2 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading || !code.trim()}
+              className="w-full inline-flex items-center justify-center rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-60">
+              {loading ? "Verifying..." : "Verify"}
+            </button>
+            <div className="flex items-center justify-between text-sm">
+              <button
+                type="button"
+                onClick={switchCodeType}
+                className="text-blue-600 hover:text-blue-800">
+                {useRecoveryCode
+                  ? "Use authenticator code"
+                  : "Use a recovery code"}
+              </button>
+              <button
+                type="button"
+                onClick={startOver}
+                className="text-gray-500 hover:text-gray-700">
+                Start over
+              </button>
+            </div>
+          </form>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Email
+              </label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Password
+              </label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full inline-flex items-center justify-center rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-60">
+              {loading ? "Signing in..." : "Sign in"}
+            </button>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,323 @@
+"use client";
+
+import {
+  ArrowLeftIcon,
+  ClockIcon,
+  CodeBracketIcon,
+  ExclamationTriangleIcon,
+  GlobeAltIcon,
+  ShieldCheckIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { useEffect, useState } from "react";
+
+import Link from "next/link";
+import { format } from "date-fns";
+import { useParams, useRouter } from "next/navigation";
+import { SchemaIssuesNotice } from "@/components/SchemaIssuesNotice";
+import { useAuth } from "@/contexts/AuthContext";
+import { authFetch } from "@/lib/fetch";
+import {
+  hasRole,
+  type Alert,
+  type AlertDetailResponse,
+  type AlertEvent,
+  type SchemaIssue,
+} from "@/lib/models";
+
+function formatTime(value: string | null, pattern = "MMM d, yyyy HH:mm:ss") {
+  if (!value) return "-";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : format(date, pattern);
+}
+
+// Events in the order they happened; undated ones keep their position last
+function sortedEvents(events: AlertEvent[]) {
+  return events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => {
+      const ta = a.event.timestamp ? Date.parse(a.event.timestamp) : Infinity;
+      const tb = b.event.timestamp ? Date.parse(b.event.timestamp) : Infinity;
+      return ta === tb ? a.index - b.index : ta - tb;
+    });
+}
+
+function MetaTable({ meta }: { meta: Record<string, string> }) {
+  const entries = Object.entries(meta).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No metadata</p>;
+  }
+  return (
+    <table className="min-w-full divide-y divide-gray-200 text-sm">
+      <tbody className="divide-y divide-gray-100">
+        {entries.map(([key, value]) => (
+          <tr key={key}>
+            <td className="py-1.5 pr-4 font-medium text-gray-600 whitespace-nowrap align-top">
+              {key}
+            </td>
+            <td className="py-1.5 text-gray-900 font-mono break-all">
+              {value}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function Field({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">
+        {label}
+      </dt>
+      <dd className="mt-1 text-sm text-gray-900 break-all">{value || "-"}</dd>
+    </div>
+  );
+}
+
+export default function AlertDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [alert, setAlert] = useState<Alert | null>(null);
+  const [raw, setRaw] = useState<unknown>(null);
+  const [schemaIssues, setSchemaIssues] = useState<SchemaIssue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const { role } = useAuth();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    (async () => {
+      try {
+        const res = await authFetch(`/api/alerts/${encodeURIComponent(id)}`);
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || "Failed to load alert");
+        const detail = data as AlertDetailResponse;
+        if (!cancelled) {
+          setAlert(detail.alert);
+          setRaw(detail.raw);
+          setSchemaIssues(detail.schemaIssues || []);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError((err as Error).message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  async function deleteAlert() {
+    if (!confirm(`Delete alert #${id}? Its decisions are removed too.`)) {
+      return;
+    }
+    setDeleting(true);
+    try {
+      const res = await authFetch(`/api/alerts/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to delete alert");
+      router.push("/alerts");
+    } catch (err) {
+      setError((err as Error).message);
+      setDeleting(false);
+    }
+  }
+
+  return (
+    <div className="p-4 md:p-6">
+      <Link
+        href="/alerts"
+        className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4">
+        <ArrowLeftIcon className="h-4 w-4 mr-1" />
+        Back to alerts
+      </Link>
+
+      {loading && (
+        <div className="text-center text-gray-500 p-8">Loading...</div>
+      )}
+      {error && (
+        <div className="mb-6 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      <SchemaIssuesNotice issues={schemaIssues} />
+
+      {alert && (
+        <>
+          <div className="mb-6 md:mb-8">
+            <div className="flex items-center">
+              <ExclamationTriangleIcon className="h-6 w-6 text-orange-500 mr-2" />
+              <h1 className="text-2xl md:text-3xl font-bold text-gray-900 break-all">
+                {alert.scenario}
+              </h1>
+              {alert.simulated && (
+                <span className="ml-3 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                  simulated
+                </span>
+              )}
+            </div>
+            <div className="mt-2 flex items-start justify-between">
+              <p className="text-sm md:text-base text-gray-600">
+                {alert.message || `Alert #${alert.id}`}
+              </p>
+              {hasRole(role, "operator") && (
+                <button
+                  onClick={deleteAlert}
+                  disabled={deleting}
+                  className="ml-4 inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50">
+                  <TrashIcon className="h-4 w-4 mr-1" />
+                  {deleting ? "Deleting..." : "Delete"}
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            {/* Source enrichment */}
+            <div className="bg-white rounded-lg shadow p-4">
+              <h2 className="flex items-center text-sm font-semibold text-gray-800 mb-4">
+                <GlobeAltIcon className="h-4 w-4 mr-2 text-gray-400" />
+                Source
+              </h2>
+              <dl className="grid grid-cols-2 gap-4">
+                <Field label="IP" value={alert.source.ip} />
+                <Field label="Range" value={alert.source.range} />
+                <Field label="Scope" value={alert.source.scope} />
+                <Field label="Country" value={alert.source.country} />
+                <Field label="AS number" value={alert.source.asNumber} />
+                <Field label="AS name" value={alert.source.asName} />
+              </dl>
+            </div>
+
+            {/* Timing */}
+            <div className="bg-white rounded-lg shadow p-4">
+              <h2 className="flex items-center text-sm font-semibold text-gray-800 mb-4">
+                <ClockIcon className="h-4 w-4 mr-2 text-gray-400" />
+                Details
+              </h2>
+              <dl className="grid grid-cols-2 gap-4">
+                <Field label="Started" value={formatTime(alert.startAt)} />
+                <Field label="Stopped" value={formatTime(alert.stopAt)} />
+                <Field label="Created" value={formatTime(alert.createdAt)} />
+                <Field label="Events" value={String(alert.eventsCount)} />
+                <Field label="Security engine" value={alert.machine} />
+                <Field label="Alert id" value={String(alert.id)} />
+              </dl>
+            </div>
+          </div>
+
+          {/* Decisions */}
+          <div className="bg-white shadow rounded-lg overflow-hidden mb-6">
+            <h2 className="flex items-center px-4 py-3 text-sm font-semibold text-gray-800 border-b border-gray-200">
+              <ShieldCheckIcon className="h-4 w-4 mr-2 text-gray-400" />
+              Decisions ({alert.decisions.length})
+            </h2>
+            {alert.decisions.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-gray-500">
+                This alert did not create any decisions.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {["Type", "Value", "Scope", "Origin", "Duration"].map(
+                        (h) => (
+                          <th
+                            key={h}
+                            className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            {h}
+                          </th>
+                        )
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {alert.decisions.map((d) => (
+                      <tr key={d.id}>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          {d.type}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap font-mono">
+                          {d.value}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          {d.scope}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          {d.origin || "-"}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          {d.duration || "-"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Event timeline */}
+          <div className="bg-white shadow rounded-lg mb-6">
+            <h2 className="px-4 py-3 text-sm font-semibold text-gray-800 border-b border-gray-200">
+              Events ({alert.events.length}
+              {alert.eventsCount > alert.events.length
+                ? ` of ${alert.eventsCount}`
+                : ""}
+              )
+            </h2>
+            {alert.events.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-gray-500">
+                No events were attached to this alert.
+              </p>
+            ) : (
+              <ol className="relative m-4 border-l border-gray-200">
+                {sortedEvents(alert.events).map(({ event, index }) => (
+                  <li key={index} className="mb-6 ml-4 last:mb-0">
+                    <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500" />
+                    <time className="text-xs font-medium text-gray-500">
+                      {formatTime(event.timestamp)}
+                    </time>
+                    <div className="mt-2 rounded-md border border-gray-100 bg-gray-50 px-3 py-2">
+                      <MetaTable meta={event.meta} />
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          {/* Alert-level meta */}
+          {Object.keys(alert.meta).length > 0 && (
+            <div className="bg-white shadow rounded-lg p-4 mb-6">
+              <h2 className="text-sm font-semibold text-gray-800 mb-3">
+                Alert metadata
+              </h2>
+              <MetaTable meta={alert.meta} />
+            </div>
+          )}
+
+          {/* Raw payload */}
+          <details className="bg-white shadow rounded-lg">
+            <summary className="flex cursor-pointer items-center px-4 py-3 text-sm font-semibold text-gray-800">
+              <CodeBracketIcon className="h-4 w-4 mr-2 text-gray-400" />
+              Raw alert JSON
+            </summary>
+            <pre className="overflow-x-auto border-t border-gray-200 bg-gray-900 p-4 text-xs text-gray-100 rounded-b-lg">
+              {JSON.stringify(raw, null, 2)}
+            </pre>
+          </details>
+        </>
+      )}
+    </div>
+  );
+}
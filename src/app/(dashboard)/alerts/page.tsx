@@ -1,4 +1,3 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 "use client";
 
 import {
@@ -21,35 +20,61 @@ import {
 } from "recharts";
 import { useEffect, useMemo, useState } from "react";
 
+import Link from "next/link";
 import { format } from "date-fns";
+import { SchemaIssuesNotice } from "@/components/SchemaIssuesNotice";
+import { useAuth } from "@/contexts/AuthContext";
+import { authFetch } from "@/lib/fetch";
+import { isCidr, isIp } from "@/lib/ip";
+import {
+  alertFiltersToQuery,
+  alertTime,
+  hasRole,
+  type Alert,
+  type AlertFilters,
+  type AlertFlushResponse,
+  type AlertsResponse,
+  type BulkDeleteResponse,
+  type BulkDeleteResult,
+  type SchemaIssue,
+} from "@/lib/models";
 
-// Helpers to map API alert meta array to useful fields
-function getMetaValue(metaArr: any[] | undefined, key: string) {
-  if (!Array.isArray(metaArr)) return undefined;
-  return metaArr.find((m) => m?.key === key)?.value;
-}
-
-const severityColors = {
-  Critical: "bg-red-100 text-red-800",
-  High: "bg-orange-100 text-orange-800",
-  Medium: "bg-yellow-100 text-yellow-800",
-  Low: "bg-green-100 text-green-800",
-};
+const alertAsn = (a: Alert) => a.source.asName || a.source.asNumber;
 
-const statusColors = {
-  Active: "bg-red-100 text-red-800",
-  Resolved: "bg-green-100 text-green-800",
-  Investigated: "bg-blue-100 text-blue-800",
-  False: "bg-gray-100 text-gray-800",
-};
+// Addresses and ranges are filtered upstream over the whole history; any
+// other text is a free-text search over the alerts
+function searchToFilters(term: string): AlertFilters {
+  const value = term.trim();
+  if (!value) return {};
+  if (isIp(value)) return { ip: value };
+  if (isCidr(value)) return { range: value };
+  return { q: value };
+}
 
 export default function AlertsPage() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [severityFilter, setSeverityFilter] = useState("All");
-  const [statusFilter, setStatusFilter] = useState("All");
-  const [alerts, setAlerts] = useState<any[]>([]);
+  const [timeWindow, setTimeWindow] = useState("All");
+  const [originFilter, setOriginFilter] = useState("All");
+  const [decisionFilter, setDecisionFilter] = useState("All");
+  const [filters, setFilters] = useState<AlertFilters>({});
+  const [error, setError] = useState<string | null>(null);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [schemaIssues, setSchemaIssues] = useState<SchemaIssue[]>([]);
+  // Set when a text search only covered the newest alerts
+  const [searchedOnly, setSearchedOnly] = useState<number | null>(null);
   const [limit, setLimit] = useState(10);
   const [loading, setLoading] = useState(false);
+  // Bumped to refetch the current page after a flush
+  const [reloadKey, setReloadKey] = useState(0);
+  const [selectedAlerts, setSelectedAlerts] = useState<number[]>([]);
+  const [deleting, setDeleting] = useState(false);
+  const [deleteFailures, setDeleteFailures] = useState<BulkDeleteResult[]>([]);
+  const [purgeAge, setPurgeAge] = useState("30d");
+  const [purgeScenario, setPurgeScenario] = useState("");
+  const [notice, setNotice] = useState<string | null>(null);
+  // Viewers can't delete or purge
+  const { role } = useAuth();
+  const canEdit = hasRole(role, "operator");
 
   const now = useMemo(() => new Date(), []);
 
@@ -59,13 +84,28 @@ export default function AlertsPage() {
     (async () => {
       if (!cancelled) setLoading(true);
       try {
-        const r = await fetch(`/api/alerts?limit=${limit}`, {
+        const query = alertFiltersToQuery(filters);
+        query.set("limit", String(limit));
+        const r = await authFetch(`/api/alerts?${query}`, {
           signal: controller.signal,
         });
         const d = await r.json();
-        if (!cancelled) setAlerts(Array.isArray(d?.alerts) ? d.alerts : []);
-      } catch {
-        // ignore
+        if (!r.ok) throw new Error(d?.error || "Failed to load alerts");
+        const data = d as AlertsResponse;
+        if (!cancelled) {
+          setAlerts(Array.isArray(data?.alerts) ? data.alerts : []);
+          setSchemaIssues(data?.schemaIssues || []);
+          setSearchedOnly(
+            data?.searchTruncated ? (data.searched ?? null) : null
+          );
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setAlerts([]);
+          setSearchedOnly(null);
+          setError((err as Error).message);
+        }
       } finally {
         if (!cancelled) setLoading(false);
       }
@@ -74,14 +114,118 @@ export default function AlertsPage() {
       cancelled = true;
       controller.abort();
     };
-  }, [limit]);
+  }, [limit, filters, reloadKey]);
+
+  function applyFilters(e: React.FormEvent) {
+    e.preventDefault();
+    setFilters({
+      ...searchToFilters(searchTerm),
+      since: timeWindow === "All" ? undefined : timeWindow,
+      origin: originFilter === "All" ? undefined : originFilter,
+      hasActiveDecision:
+        decisionFilter === "All" ? undefined : decisionFilter === "true",
+    });
+    setLimit(10);
+    setSelectedAlerts([]);
+  }
+
+  const handleSelectAlert = (alertId: number) => {
+    setSelectedAlerts((prev) =>
+      prev.includes(alertId)
+        ? prev.filter((id) => id !== alertId)
+        : [...prev, alertId]
+    );
+  };
+
+  const handleSelectAll = () => {
+    if (selectedAlerts.length === alerts.length) {
+      setSelectedAlerts([]);
+    } else {
+      setSelectedAlerts(alerts.map((alert) => alert.id));
+    }
+  };
+
+  async function deleteSelected() {
+    const ids = selectedAlerts;
+    if (ids.length === 0) return;
+    if (!confirm(`Delete ${ids.length} alert${ids.length > 1 ? "s" : ""}?`)) {
+      return;
+    }
+    setDeleting(true);
+    setDeleteFailures([]);
+    setNotice(null);
+    try {
+      const res = await authFetch("/api/alerts/bulk-delete", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to delete alerts");
+      const { results } = data as BulkDeleteResponse;
+      // Failed alerts stay listed and selected so they can be retried
+      const gone = results.filter((r) => r.status !== "error").map((r) => r.id);
+      setAlerts((prev) => prev.filter((a) => !gone.includes(a.id)));
+      setSelectedAlerts((prev) => prev.filter((id) => !gone.includes(id)));
+      setDeleteFailures(results.filter((r) => r.status === "error"));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setDeleting(false);
+    }
+  }
+
+  // Flush alerts older than the chosen age and/or for one scenario
+  async function purgeAlerts(e: React.FormEvent) {
+    e.preventDefault();
+    const query = alertFiltersToQuery({
+      until: purgeAge || undefined,
+      scenario: purgeScenario.trim() || undefined,
+    });
+    if (!query.toString()) {
+      setError("Choose an age or a scenario to purge");
+      return;
+    }
+    const scope = [
+      purgeAge && `older than ${purgeAge}`,
+      purgeScenario.trim() && `for scenario ${purgeScenario.trim()}`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    if (!confirm(`Delete all alerts ${scope}? This cannot be undone.`)) return;
+
+    setDeleting(true);
+    setNotice(null);
+    try {
+      const res = await authFetch(
+        `/api/alerts/bulk-delete/by-filter?${query}`,
+        {
+          method: "POST",
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to purge alerts");
+      const { deleted } = data as AlertFlushResponse;
+      setNotice(
+        deleted === null
+          ? `Deleted alerts ${scope}`
+          : `Deleted ${deleted} alert${deleted === 1 ? "" : "s"} ${scope}`
+      );
+      setSelectedAlerts([]);
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setDeleting(false);
+    }
+  }
 
   // ------- Visualizer data (top summaries) -------
-  function groupCount<T extends string>(
-    items: any[],
-    keyFn: (a: any) => T | undefined
+  function groupCount(
+    items: Alert[],
+    keyFn: (a: Alert) => string | null | undefined
   ) {
-    const m = new Map<T, number>();
+    const m = new Map<string, number>();
     for (const it of items) {
       const k = keyFn(it);
       if (!k) continue;
@@ -92,20 +236,10 @@ export default function AlertsPage() {
       .slice(0, 3);
   }
 
-  const topSourceIp = groupCount(
-    alerts,
-    (a) => a?.source?.ip || a?.source?.value || a?.decisions?.[0]?.value
-  );
-  const topASNs = groupCount(
-    alerts,
-    (a) =>
-      getMetaValue(a?.events?.[0]?.meta, "ASNOrg") ||
-      getMetaValue(a?.events?.[0]?.meta, "ASNNumber")
-  );
-  const topEngines = groupCount(alerts, (a) =>
-    getMetaValue(a?.events?.[0]?.meta, "machine")
-  );
-  const topScenarios = groupCount(alerts, (a) => a?.scenario);
+  const topSourceIp = groupCount(alerts, (a) => a.source.ip);
+  const topASNs = groupCount(alerts, alertAsn);
+  const topEngines = groupCount(alerts, (a) => a.machine);
+  const topScenarios = groupCount(alerts, (a) => a.scenario);
 
   // Build a daily series for the CURRENT month only
   function getMonthDays(year: number, month: number) {
@@ -114,14 +248,14 @@ export default function AlertsPage() {
     for (let d = 1; d <= last; d++) out.push(`${year}-${month + 1}-${d}`);
     return out;
   }
-  function seriesByDay(items: any[]) {
+  function seriesByDay(items: Alert[]) {
     const month = now.getMonth();
     const year = now.getFullYear();
     const keyOf = (d: Date) =>
       `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
     const m = new Map<string, number>();
     for (const a of items) {
-      const d = new Date(a?.start_at || a?.stop_at || now);
+      const d = new Date(a.startAt || a.stopAt || now);
       if (d.getMonth() !== month || d.getFullYear() !== year) continue;
       const key = keyOf(d);
       m.set(key, (m.get(key) || 0) + 1);
@@ -136,75 +270,64 @@ export default function AlertsPage() {
 
   // Build multi-series (top 3) for charts like CrowdSec
   function seriesByDayForKeys(
-    items: any[],
-    keyFn: (a: any) => string | undefined,
+    items: Alert[],
+    keyFn: (a: Alert) => string | null | undefined,
     keys: string[]
   ) {
     const month = now.getMonth();
     const year = now.getFullYear();
     const dayKey = (d: Date) =>
       `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
-    const map = new Map<string, any>();
+    const map = new Map<string, Record<string, string | number>>();
     for (const a of items) {
       const k = keyFn(a);
       if (!k || !keys.includes(k)) continue;
-      const d = new Date(a?.start_at || a?.stop_at || now);
+      const d = new Date(a.startAt || a.stopAt || now);
       if (d.getMonth() !== month || d.getFullYear() !== year) continue;
       const dk = dayKey(d);
       if (!map.has(dk)) map.set(dk, { date: dk });
-      const row = map.get(dk);
-      row[k] = (row[k] || 0) + 1;
+      const row = map.get(dk)!;
+      row[k] = ((row[k] as number) || 0) + 1;
     }
     // produce one row per day of current month
     return getMonthDays(year, month).map((date) => {
-      const base: any = { date };
+      const base: Record<string, string | number> = { date };
       for (const k of keys) base[k] = 0;
       const found = map.get(date);
       return found ? { ...base, ...found } : base;
     });
   }
-  
+
   // Source IP chart data
   const sourceTopKeys = topSourceIp.map((t) => t.name).slice(0, 3) as string[];
   const sourceSeries = seriesByDayForKeys(
     alerts,
-    (a) => a?.source?.ip || a?.source?.value || a?.decisions?.[0]?.value,
+    (a) => a.source.ip,
     sourceTopKeys
   );
-  
+
   // ASNs chart data
   const asnTopKeys = topASNs.map((t) => t.name).slice(0, 3) as string[];
-  const asnSeries = seriesByDayForKeys(
-    alerts,
-    (a) => getMetaValue(a?.events?.[0]?.meta, "ASNOrg") || getMetaValue(a?.events?.[0]?.meta, "ASNNumber"),
-    asnTopKeys
-  );
-  
+  const asnSeries = seriesByDayForKeys(alerts, alertAsn, asnTopKeys);
+
   // Engines chart data
   const engineTopKeys = topEngines.map((t) => t.name).slice(0, 3) as string[];
   const engineSeries = seriesByDayForKeys(
     alerts,
-    (a) => getMetaValue(a?.events?.[0]?.meta, "machine"),
+    (a) => a.machine,
     engineTopKeys
   );
-  
+
   // Scenarios chart data
-  const scenarioTopKeys = topScenarios.map((t) => t.name).slice(0, 3) as string[];
+  const scenarioTopKeys = topScenarios
+    .map((t) => t.name)
+    .slice(0, 3) as string[];
   const scenarioSeries = seriesByDayForKeys(
     alerts,
-    (a) => a?.scenario,
+    (a) => a.scenario,
     scenarioTopKeys
   );
 
-  const filteredAlerts = alerts.filter((alert) => {
-    const matchesSearch = searchTerm === "" || JSON.stringify(alert).toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesSeverity = severityFilter === "All";
-    const matchesStatus = statusFilter === "All";
-    return matchesSearch && matchesSeverity && matchesStatus;
-  });
-
-
-
   return (
     <div className="p-4 md:p-6">
       {/* Visualizer */}
@@ -385,10 +508,23 @@ export default function AlertsPage() {
         </div>
       </div>
 
+      <SchemaIssuesNotice issues={schemaIssues} />
+      {searchedOnly !== null && (
+        <div className="mb-6 rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+          Text search covered only the newest {searchedOnly} alerts. Narrow the
+          time window or origin, or search by IP or range, to reach older ones.
+        </div>
+      )}
+      {error && (
+        <div className="mb-6 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
       {/* Filters and Search */}
-      <div className="bg-white shadow rounded-lg mb-6">
+      <form onSubmit={applyFilters} className="bg-white shadow rounded-lg mb-6">
         <div className="px-4 py-5 sm:p-6">
-          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-5">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Search
@@ -397,7 +533,7 @@ export default function AlertsPage() {
                 <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
                 <input
                   type="text"
-                  placeholder="Search alerts..."
+                  placeholder="IP, range or any text..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent w-full"
@@ -407,45 +543,159 @@ export default function AlertsPage() {
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Severity
+                Time window
               </label>
               <select
-                value={severityFilter}
-                onChange={(e) => setSeverityFilter(e.target.value)}
+                value={timeWindow}
+                onChange={(e) => setTimeWindow(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
-                <option value="All">All Severities</option>
-                <option value="Critical">Critical</option>
-                <option value="High">High</option>
-                <option value="Medium">Medium</option>
-                <option value="Low">Low</option>
+                <option value="All">All time</option>
+                <option value="1h">Last hour</option>
+                <option value="24h">Last 24 hours</option>
+                <option value="7d">Last 7 days</option>
+                <option value="30d">Last 30 days</option>
               </select>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Status
+                Origin
               </label>
               <select
-                value={statusFilter}
-                onChange={(e) => setStatusFilter(e.target.value)}
+                value={originFilter}
+                onChange={(e) => setOriginFilter(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
-                <option value="All">All Statuses</option>
-                <option value="Active">Active</option>
-                <option value="Resolved">Resolved</option>
-                <option value="Investigated">Investigated</option>
-                <option value="False">False Positive</option>
+                <option value="All">All Origins</option>
+                <option value="crowdsec">crowdsec</option>
+                <option value="cscli">cscli</option>
+                <option value="CAPI">CAPI</option>
+                <option value="lists">lists</option>
+                <option value="console">console</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Decision
+              </label>
+              <select
+                value={decisionFilter}
+                onChange={(e) => setDecisionFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                <option value="All">Any</option>
+                <option value="true">Active decision</option>
+                <option value="false">No active decision</option>
               </select>
             </div>
 
             <div className="flex items-end">
-              <button className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500">
+              <button
+                type="submit"
+                className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500">
                 <FunnelIcon className="h-4 w-4 mr-2" />
                 Apply Filters
               </button>
             </div>
           </div>
         </div>
-      </div>
+      </form>
+
+      {/* Purge */}
+      {canEdit && (
+        <form
+          onSubmit={purgeAlerts}
+          className="bg-white shadow rounded-lg mb-6 px-4 py-4 sm:px-6">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Purge alerts older than
+              </label>
+              <select
+                value={purgeAge}
+                onChange={(e) => setPurgeAge(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                <option value="">Any age</option>
+                <option value="24h">24 hours</option>
+                <option value="7d">7 days</option>
+                <option value="30d">30 days</option>
+                <option value="90d">90 days</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Scenario
+              </label>
+              <input
+                type="text"
+                placeholder="e.g., crowdsecurity/ssh-bf"
+                value={purgeScenario}
+                onChange={(e) => setPurgeScenario(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                disabled={deleting}
+                className="w-full flex items-center justify-center px-4 py-2 border border-transparent rounded-md text-sm font-medium text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50">
+                <TrashIcon className="h-4 w-4 mr-2" />
+                Purge alerts
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {notice && (
+        <div className="mb-6 rounded-lg border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-700">
+          {notice}
+        </div>
+      )}
+
+      {deleteFailures.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="text-sm font-medium text-red-800">
+                {deleteFailures.length} alert
+                {deleteFailures.length > 1 ? "s" : ""} could not be deleted
+              </p>
+              <ul className="mt-2 space-y-1 text-sm text-red-700">
+                {deleteFailures.map((f) => (
+                  <li key={f.id}>
+                    <span className="font-mono">#{f.id}</span>: {f.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <button
+              onClick={() => setDeleteFailures([])}
+              className="text-red-400 hover:text-red-500">
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Actions Bar */}
+      {canEdit && selectedAlerts.length > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-blue-800">
+              {selectedAlerts.length} alert
+              {selectedAlerts.length > 1 ? "s" : ""} selected
+            </span>
+            <div className="flex space-x-2">
+              <button
+                onClick={deleteSelected}
+                disabled={deleting}
+                className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50">
+                Delete selected
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
 
       {/* Alerts Table Section */}
 
@@ -455,6 +705,18 @@ export default function AlertsPage() {
           <table className="min-w-full divide-y divide-gray-200 text-sm">
             <thead className="bg-gray-50">
               <tr>
+                <th className="px-3 md:px-6 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={
+                      selectedAlerts.length === alerts.length &&
+                      alerts.length > 0
+                    }
+                    onChange={handleSelectAll}
+                    disabled={!canEdit}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                </th>
                 <th className="px-3 md:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Scenario
                 </th>
@@ -473,20 +735,36 @@ export default function AlertsPage() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredAlerts.map((alert) => (
-                <tr key={alert.id} className="hover:bg-gray-50">
+              {alerts.map((alert) => (
+                <tr
+                  key={alert.id}
+                  className={
+                    deleteFailures.some((f) => f.id === alert.id)
+                      ? "bg-red-50"
+                      : "hover:bg-gray-50"
+                  }>
+                  <td className="px-3 md:px-6 py-4 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={selectedAlerts.includes(alert.id)}
+                      onChange={() => handleSelectAlert(alert.id)}
+                      disabled={!canEdit}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                  </td>
                   {/* Scenario */}
                   <td className="px-3 md:px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
                       <ExclamationTriangleIcon className="h-4 w-4 md:h-5 md:w-5 text-gray-400 mr-2 md:mr-3" />
                       <div>
-                        <div className="text-sm font-medium text-gray-900">
+                        <Link
+                          href={`/alerts/${alert.id}`}
+                          className="text-sm font-medium text-gray-900 hover:text-blue-600">
                           {alert.scenario}
-                        </div>
-                        <div 
+                        </Link>
+                        <div
                           className="text-xs md:text-sm text-gray-500 relative group"
-                          title={alert.message}
-                        >
+                          title={alert.message}>
                           <span className="inline-block max-w-[200px] truncate">
                             {alert.message}
                           </span>
@@ -500,44 +778,37 @@ export default function AlertsPage() {
                   {/* Source */}
                   <td className="px-3 md:px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">
-                      {alert?.source?.ip || alert?.source?.value || "-"}
+                      {alert.source.ip || "-"}
                     </div>
                     <div className="text-xs md:text-sm text-gray-500">
-                      {getMetaValue(alert?.events?.[0]?.meta, "ASNOrg") || 
-                       getMetaValue(alert?.events?.[0]?.meta, "ASNNumber") || "-"}
+                      {alertAsn(alert) || "-"}
                     </div>
                   </td>
                   {/* Target */}
                   <td className="px-3 md:px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">
-                      {getMetaValue(alert?.meta, "security_engine_id") || "-"}
+                      {alert.meta.security_engine_id || "-"}
                     </div>
                     <div className="text-xs md:text-sm text-gray-500">
-                      {getMetaValue(alert?.meta, "security_engine_ip") || "-"}
+                      {alert.meta.security_engine_ip || "-"}
                     </div>
                   </td>
                   {/* Context */}
                   <td className="px-3 md:px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">
-                      {getMetaValue(alert?.meta, "target_user") || "-"}
+                      {alert.meta.target_user || "-"}
                     </div>
                     <div className="text-xs md:text-sm text-gray-500">
-                      {alert?.events_count || alert?.events?.length || 0} events
+                      {alert.eventsCount} events
                     </div>
                   </td>
                   {/* When */}
                   <td className="px-3 md:px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">
-                      {format(
-                        new Date(alert?.stop_at || alert?.start_at || now),
-                        "MMM d, yyyy"
-                      )}
+                      {format(new Date(alertTime(alert) || now), "MMM d, yyyy")}
                     </div>
                     <div className="text-xs md:text-sm text-gray-500">
-                      {format(
-                        new Date(alert?.stop_at || alert?.start_at || now),
-                        "HH:mm:ss"
-                      )}
+                      {format(new Date(alertTime(alert) || now), "HH:mm:ss")}
                     </div>
                   </td>
                 </tr>
@@ -550,11 +821,12 @@ export default function AlertsPage() {
       {/* Load More */}
       <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6 mt-6">
         <p className="text-sm text-gray-700">
-          Showing {filteredAlerts.length} of {alerts.length}
+          {loading ? "Loading..." : `Showing ${alerts.length} alerts`}
         </p>
         <button
+          disabled={loading || alerts.length < limit}
           onClick={() => setLimit((l) => l + 10)}
-          className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500">
+          className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50">
           Load more
         </button>
       </div>
@@ -1,45 +1,168 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+  FolderPlusIcon,
+  PencilSquareIcon,
   ShieldCheckIcon,
   TrashIcon,
   PlusIcon,
   XMarkIcon,
 } from "@heroicons/react/24/outline";
+import { formatDistanceStrict } from "date-fns";
+import { SchemaIssuesNotice } from "@/components/SchemaIssuesNotice";
+import { useAuth } from "@/contexts/AuthContext";
+import { AllowlistGroupModal } from "@/components/allowlist/AllowlistGroupModal";
+import { ImportAllowlistModal } from "@/components/allowlist/ImportAllowlistModal";
+import { authFetch } from "@/lib/fetch";
+import { addressCount, cidrContains, parseIpOrCidr } from "@/lib/ip";
+import {
+  DEFAULT_ALLOWLIST_GROUP,
+  findAllowlistOverlaps,
+  hasRole,
+  validateAllowlistEntryUpdate,
+  validateAllowlistExpiry,
+  validateAllowlistIp,
+  validateAllowlistTags,
+  type AddAllowlistResponse,
+  type AllowlistActivity,
+  type AllowlistActivityResponse,
+  type AllowlistConflictsResponse,
+  type AllowlistEntry,
+  type AllowlistExpiry,
+  type AllowlistGroup,
+  type AllowlistResponse,
+  type BulkDeleteResponse,
+  type Decision,
+  type SchemaIssue,
+  type UpdateAllowlistResponse,
+} from "@/lib/models";
+
+const stalePeriods = [30, 90, 180, 365];
+
+const expiryPresets = [
+  { value: "1h", label: "1 hour" },
+  { value: "24h", label: "24 hours" },
+  { value: "168h", label: "7 days" },
+  { value: "720h", label: "30 days" },
+];
 
-type AllowlistEntry = {
+// Inline edit of one row; `expiry` is "keep", "" (never), a preset or "custom"
+type RowEdit = {
   ip: string;
-  reason?: string;
-  created_at?: string;
-  updated_at?: string;
+  reason: string;
+  tags: string;
+  expiry: string;
+  customExpiry: string;
 };
 
+// Exact counts up to a million addresses, powers of two beyond that
+function formatAddressCount(ip: string) {
+  const cidr = parseIpOrCidr(ip);
+  if (!cidr) return "—";
+  const count = addressCount(cidr);
+  if (count <= BigInt(1_000_000)) return Number(count).toLocaleString();
+  return `2^${(cidr.version === 4 ? 32 : 128) - cidr.prefix}`;
+}
+
 export default function AllowlistPage() {
   const [entries, setEntries] = useState<AllowlistEntry[]>([]);
+  const [groups, setGroups] = useState<AllowlistGroup[]>([]);
+  const [activeGroup, setActiveGroup] = useState(DEFAULT_ALLOWLIST_GROUP);
+  // List being edited in the list modal; null with the modal open creates one
+  const [editingGroup, setEditingGroup] = useState<AllowlistGroup | null>(null);
+  const [showGroupModal, setShowGroupModal] = useState(false);
+  const [movingIp, setMovingIp] = useState<string | null>(null);
+  const [schemaIssues, setSchemaIssues] = useState<SchemaIssue[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [newIp, setNewIp] = useState("");
   const [newReason, setNewReason] = useState("");
+  const [newGroup, setNewGroup] = useState(DEFAULT_ALLOWLIST_GROUP);
+  const [newTags, setNewTags] = useState("");
+  const [rowEdit, setRowEdit] = useState<RowEdit | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [expiryPreset, setExpiryPreset] = useState("");
+  const [customExpiry, setCustomExpiry] = useState("");
+  const [expired, setExpired] = useState<AllowlistExpiry[]>([]);
+  // Active decisions overlapping each entry, keyed by entry ip
+  const [conflicts, setConflicts] = useState<Record<string, Decision[]>>({});
+  const [removeConflicting, setRemoveConflicting] = useState(true);
+  // Last alert or decision per entry, keyed by entry ip
+  const [activity, setActivity] = useState<Record<string, AllowlistActivity>>(
+    {}
+  );
+  const [stale, setStale] = useState<string[]>([]);
+  // Period picked in the stale report; null uses the server default
+  const [stalePeriod, setStalePeriod] = useState<number | null>(null);
+  const [staleDays, setStaleDays] = useState<number | null>(null);
+  const [activityTruncated, setActivityTruncated] = useState(false);
+  const [resolving, setResolving] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Ticks so expiry countdowns stay current without refetching
+  const [now, setNow] = useState(() => Date.now());
   const [submitting, setSubmitting] = useState(false);
   const [deleteInProgress, setDeleteInProgress] = useState<string | null>(null);
+  // Viewers only browse; managing the named lists themselves is for admins
+  const { role } = useAuth();
+  const canEdit = hasRole(role, "operator");
+  const canManageLists = hasRole(role, "admin");
+
+  const overlaps = useMemo(() => findAllowlistOverlaps(entries), [entries]);
+  const redundantCount = Object.keys(overlaps).length;
+
+  const currentGroup = groups.find((g) => g.id === activeGroup);
+  const visibleEntries = useMemo(
+    () => entries.filter((e) => e.group === activeGroup),
+    [entries, activeGroup]
+  );
+  const groupCount = (id: string) =>
+    entries.filter((e) => e.group === id).length;
+
+  // Live feedback for the add form: canonical form and overlap with what is
+  // already allowlisted
+  const newEntry = newIp.trim() ? validateAllowlistIp(newIp) : null;
+  const newCanonical = newEntry?.error === undefined ? newEntry?.ip : null;
+  const newCidr = newCanonical ? parseIpOrCidr(newCanonical) : null;
+  const coveringEntry = newCidr
+    ? entries.find((e) => {
+        const cidr = parseIpOrCidr(e.ip);
+        return cidr && cidrContains(cidr, newCidr);
+      })
+    : undefined;
+  const coveredEntries = newCidr
+    ? entries.filter((e) => {
+        const cidr = parseIpOrCidr(e.ip);
+        return cidr && e !== coveringEntry && cidrContains(newCidr, cidr);
+      })
+    : [];
 
   // Fetch allowlist entries
   const fetchAllowlist = async () => {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch("/api/allowlist", {
+      const res = await authFetch("/api/allowlist", {
         credentials: "include",
       });
       if (!res.ok) {
         throw new Error(`Failed to fetch allowlist: ${res.statusText}`);
       }
-      const data = await res.json();
-      // Handle different response formats
-      const list = Array.isArray(data) ? data : data.allowlist || [];
-      setEntries(list);
+      const data = (await res.json()) as AllowlistResponse;
+      setEntries(data.allowlist);
+      setGroups(data.groups);
+      // Fall back to the default list when the open one was deleted
+      setActiveGroup((id) =>
+        data.groups.some((g) => g.id === id) ? id : DEFAULT_ALLOWLIST_GROUP
+      );
+      setExpired(data.expired || []);
+      setSchemaIssues(data.schemaIssues || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load allowlist");
     } finally {
@@ -47,25 +170,131 @@ export default function AllowlistPage() {
     }
   };
 
+  // Conflicts need the full decision list, so they load after the table
+  const fetchConflicts = useCallback(async () => {
+    try {
+      const res = await authFetch("/api/allowlist/conflicts", {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(res.statusText);
+      const data = (await res.json()) as AllowlistConflictsResponse;
+      setConflicts(data.conflicts);
+    } catch (err) {
+      console.warn("Failed to load allowlist conflicts", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (entries.length > 0) void fetchConflicts();
+  }, [entries, fetchConflicts]);
+
+  // Activity scans recent alerts, so it also loads after the table
+  const fetchActivity = useCallback(async () => {
+    try {
+      const query = stalePeriod === null ? "" : `?days=${stalePeriod}`;
+      const res = await authFetch(`/api/allowlist/activity${query}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(res.statusText);
+      const data = (await res.json()) as AllowlistActivityResponse;
+      setActivity(data.activity);
+      setStale(data.stale);
+      setStaleDays(data.staleAfterDays);
+      setActivityTruncated(data.truncated);
+    } catch (err) {
+      console.warn("Failed to load allowlist activity", err);
+    }
+  }, [stalePeriod]);
+
+  useEffect(() => {
+    if (entries.length > 0) void fetchActivity();
+  }, [entries, fetchActivity]);
+
+  // Remove the active decisions that still block an allowlisted entry
+  const resolveConflicts = async (ip: string) => {
+    const ids = (conflicts[ip] ?? []).map((d) => d.id);
+    if (ids.length === 0) return;
+    if (
+      !confirm(
+        `Remove ${ids.length} active decision${
+          ids.length > 1 ? "s" : ""
+        } overlapping ${ip}?`
+      )
+    ) {
+      return;
+    }
+
+    setResolving(ip);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await authFetch("/api/decisions/bulk-delete", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ ids }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to remove decisions");
+      const { deleted, notFound, failed } = data as BulkDeleteResponse;
+      setNotice(
+        `Removed ${deleted + notFound} decision${
+          deleted + notFound === 1 ? "" : "s"
+        } overlapping ${ip}${failed > 0 ? `; ${failed} could not be removed` : ""}`
+      );
+      await fetchConflicts();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to remove decisions"
+      );
+    } finally {
+      setResolving(null);
+    }
+  };
+
   useEffect(() => {
     fetchAllowlist();
   }, []);
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
   // Add new IP to allowlist
   const handleAddEntry = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newIp.trim()) return;
+    const validated = validateAllowlistIp(newIp);
+    if (validated.error !== undefined) {
+      setError(validated.error);
+      return;
+    }
+    const expiresIn = expiryPreset === "custom" ? customExpiry : expiryPreset;
+    const expiry = validateAllowlistExpiry(expiresIn);
+    if (expiry.error !== undefined) {
+      setError(expiry.error);
+      return;
+    }
+    const tags = validateAllowlistTags(newTags);
+    if (tags.error !== undefined) {
+      setError(tags.error);
+      return;
+    }
 
     setSubmitting(true);
     setError(null);
     try {
-      const res = await fetch("/api/allowlist", {
+      const res = await authFetch("/api/allowlist", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         credentials: "include",
         body: JSON.stringify({
-          ip: newIp.trim(),
+          ip: validated.ip,
           reason: newReason.trim() || undefined,
+          expiresIn: expiresIn || undefined,
+          group: newGroup,
+          tags: tags.tags,
+          removeConflicting,
         }),
       });
 
@@ -73,11 +302,25 @@ export default function AllowlistPage() {
         const errorData = await res.json();
         throw new Error(errorData.error || "Failed to add IP to allowlist");
       }
+      const { removedDecisions } = (await res.json()) as AddAllowlistResponse;
+      const removed = removedDecisions.filter((r) => r.status !== "error");
+      const failedRemovals = removedDecisions.length - removed.length;
+      setNotice(
+        removedDecisions.length === 0
+          ? null
+          : `Added ${validated.ip} and removed ${removed.length} conflicting decision${
+              removed.length === 1 ? "" : "s"
+            }${failedRemovals > 0 ? `; ${failedRemovals} could not be removed` : ""}`
+      );
 
       // Reset form and close modal
       setNewIp("");
       setNewReason("");
+      setNewTags("");
+      setExpiryPreset("");
+      setCustomExpiry("");
       setShowAddModal(false);
+      setActiveGroup(newGroup);
 
       // Refresh the list
       await fetchAllowlist();
@@ -97,7 +340,7 @@ export default function AllowlistPage() {
     setDeleteInProgress(ip);
     setError(null);
     try {
-      const res = await fetch(`/api/allowlist/${encodeURIComponent(ip)}`, {
+      const res = await authFetch(`/api/allowlist/${encodeURIComponent(ip)}`, {
         method: "DELETE",
         credentials: "include",
       });
@@ -118,6 +361,148 @@ export default function AllowlistPage() {
     }
   };
 
+  const startEdit = (entry: AllowlistEntry) => {
+    setRowEdit({
+      ip: entry.ip,
+      reason: entry.reason ?? "",
+      tags: entry.tags.join(", "),
+      expiry: "keep",
+      customExpiry: "",
+    });
+  };
+
+  // Save the inline edit, sending only the fields that changed
+  const saveEdit = async () => {
+    if (!rowEdit) return;
+    const entry = entries.find((e) => e.ip === rowEdit.ip);
+    const tags = validateAllowlistTags(rowEdit.tags);
+    const tagsChanged =
+      tags.error !== undefined || tags.tags.join() !== entry?.tags.join();
+    const body = {
+      reason:
+        rowEdit.reason.trim() === (entry?.reason ?? "")
+          ? undefined
+          : rowEdit.reason,
+      tags: tagsChanged ? rowEdit.tags : undefined,
+      expiresIn:
+        rowEdit.expiry === "keep"
+          ? undefined
+          : rowEdit.expiry === "custom"
+            ? rowEdit.customExpiry
+            : rowEdit.expiry,
+    };
+    if (Object.values(body).every((v) => v === undefined)) {
+      setRowEdit(null);
+      return;
+    }
+    const validated = validateAllowlistEntryUpdate(body);
+    if (validated.error !== undefined) {
+      setError(validated.error);
+      return;
+    }
+
+    setSavingEdit(true);
+    setError(null);
+    try {
+      const res = await authFetch(
+        `/api/allowlist/${encodeURIComponent(rowEdit.ip)}`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(body),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to update entry");
+      const { entry } = data as UpdateAllowlistResponse;
+      setEntries((prev) => prev.map((e) => (e.ip === entry.ip ? entry : e)));
+      setRowEdit(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update entry");
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const openAddModal = () => {
+    setNewGroup(activeGroup);
+    setShowAddModal(true);
+  };
+
+  // Move an entry to another named list
+  const moveEntry = async (ip: string, group: string) => {
+    setMovingIp(ip);
+    setError(null);
+    try {
+      const res = await authFetch(
+        `/api/allowlist/groups/${encodeURIComponent(group)}/entries`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ ips: [ip] }),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to move entry");
+      setEntries((prev) =>
+        prev.map((e) => (e.ip === ip ? { ...e, group } : e))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to move entry");
+    } finally {
+      setMovingIp(null);
+    }
+  };
+
+  const handleGroupSaved = async (group: AllowlistGroup) => {
+    setShowGroupModal(false);
+    setActiveGroup(group.id);
+    await fetchAllowlist();
+  };
+
+  // Delete the open list; its entries fall back to the default list
+  const deleteGroup = async () => {
+    if (!currentGroup || currentGroup.id === DEFAULT_ALLOWLIST_GROUP) return;
+    const count = visibleEntries.length;
+    if (
+      !confirm(
+        `Delete the list "${currentGroup.name}"?${
+          count > 0
+            ? ` Its ${count} ${
+                count === 1 ? "entry stays" : "entries stay"
+              } allowlisted and move${count === 1 ? "s" : ""} to ${
+                groups[0]?.name ?? "the default list"
+              }.`
+            : ""
+        }`
+      )
+    ) {
+      return;
+    }
+
+    setError(null);
+    try {
+      const res = await authFetch(
+        `/api/allowlist/groups/${encodeURIComponent(currentGroup.id)}`,
+        { method: "DELETE", credentials: "include" }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to delete list");
+      setActiveGroup(DEFAULT_ALLOWLIST_GROUP);
+      await fetchAllowlist();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete list");
+    }
+  };
+
+  // The route answers with Content-Disposition, so this downloads in place
+  const exportAllowlist = (format: "csv" | "json") => {
+    const query = new URLSearchParams({ format, group: activeGroup });
+    window.location.href = `/api/allowlist/export?${query}`;
+  };
+
   return (
     <div className="p-4 md:p-8 bg-gray-50 min-h-screen">
       {/* Header */}
@@ -130,12 +515,36 @@ export default function AllowlistPage() {
             Manage trusted IP addresses that bypass security rules
           </p>
         </div>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors shadow-sm">
-          <PlusIcon className="h-5 w-5 mr-2" />
-          Add IP
-        </button>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => exportAllowlist("csv")}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors shadow-sm">
+            <ArrowDownTrayIcon className="h-5 w-5 mr-2" />
+            CSV
+          </button>
+          <button
+            onClick={() => exportAllowlist("json")}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors shadow-sm">
+            <ArrowDownTrayIcon className="h-5 w-5 mr-2" />
+            JSON
+          </button>
+          {canEdit && (
+            <>
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors shadow-sm">
+                <ArrowUpTrayIcon className="h-5 w-5 mr-2" />
+                Import
+              </button>
+              <button
+                onClick={openAddModal}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors shadow-sm">
+                <PlusIcon className="h-5 w-5 mr-2" />
+                Add IP
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Error Message */}
@@ -145,18 +554,95 @@ export default function AllowlistPage() {
         </div>
       )}
 
+      {notice && (
+        <div className="mb-6 rounded-lg border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-700">
+          {notice}
+        </div>
+      )}
+
+      <SchemaIssuesNotice issues={schemaIssues} />
+
+      {redundantCount > 0 && (
+        <div className="mb-6 flex items-center rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+          <ExclamationTriangleIcon className="h-4 w-4 mr-2" />
+          {redundantCount} {redundantCount === 1 ? "entry is" : "entries are"}{" "}
+          already covered by another entry and can be removed.
+        </div>
+      )}
+
+      {/* Named lists */}
+      <div className="mb-4 flex flex-wrap items-center gap-2 border-b border-gray-200">
+        {groups.map((group) => (
+          <button
+            key={group.id}
+            onClick={() => setActiveGroup(group.id)}
+            className={`-mb-px px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+              group.id === activeGroup
+                ? "border-blue-600 text-blue-700"
+                : "border-transparent text-gray-500 hover:text-gray-700"
+            }`}>
+            {group.name}
+            <span className="ml-2 px-2 py-0.5 text-xs bg-gray-100 text-gray-600 rounded-full">
+              {groupCount(group.id)}
+            </span>
+          </button>
+        ))}
+        {canManageLists && (
+          <button
+            onClick={() => {
+              setEditingGroup(null);
+              setShowGroupModal(true);
+            }}
+            className="-mb-px inline-flex items-center px-3 py-2 text-sm font-medium text-gray-500 hover:text-gray-700 transition-colors">
+            <FolderPlusIcon className="h-5 w-5 mr-1" />
+            New list
+          </button>
+        )}
+      </div>
+
       {/* Allowlist Table */}
       <div className="bg-white shadow-lg rounded-xl border border-gray-100 overflow-hidden">
         <div className="px-6 py-5 border-b border-gray-100">
-          <div className="flex items-center">
-            <ShieldCheckIcon className="h-6 w-6 text-blue-600 mr-2" />
-            <h3 className="text-xl font-semibold text-gray-900">
-              Allowed IP Addresses
-            </h3>
-            <span className="ml-3 px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full">
-              {entries.length} {entries.length === 1 ? "entry" : "entries"}
-            </span>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <ShieldCheckIcon className="h-6 w-6 text-blue-600 mr-2" />
+              <h3 className="text-xl font-semibold text-gray-900">
+                {currentGroup?.name ?? "Allowed IP Addresses"}
+              </h3>
+              <span className="ml-3 px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full">
+                {visibleEntries.length}{" "}
+                {visibleEntries.length === 1 ? "entry" : "entries"}
+              </span>
+            </div>
+            {canManageLists &&
+              currentGroup &&
+              currentGroup.id !== DEFAULT_ALLOWLIST_GROUP && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => {
+                      setEditingGroup(currentGroup);
+                      setShowGroupModal(true);
+                    }}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors">
+                    <PencilSquareIcon className="h-4 w-4 mr-1" />
+                    Edit list
+                  </button>
+                  <button
+                    onClick={deleteGroup}
+                    className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 transition-colors">
+                    <TrashIcon className="h-4 w-4 mr-1" />
+                    Delete list
+                  </button>
+                </div>
+              )}
           </div>
+          {(currentGroup?.description || currentGroup?.owner) && (
+            <p className="mt-2 text-sm text-gray-500">
+              {currentGroup.description}
+              {currentGroup.description && currentGroup.owner && " · "}
+              {currentGroup.owner && <>Owner: {currentGroup.owner}</>}
+            </p>
+          )}
         </div>
 
         {loading ? (
@@ -164,23 +650,25 @@ export default function AllowlistPage() {
             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
             <p className="mt-2 text-sm text-gray-500">Loading allowlist...</p>
           </div>
-        ) : entries.length === 0 ? (
+        ) : visibleEntries.length === 0 ? (
           <div className="px-6 py-12 text-center">
             <ShieldCheckIcon className="mx-auto h-12 w-12 text-gray-400" />
             <h3 className="mt-2 text-sm font-medium text-gray-900">
               No entries
             </h3>
             <p className="mt-1 text-sm text-gray-500">
-              Get started by adding an IP address to the allowlist.
+              Get started by adding an IP address to this list.
             </p>
-            <div className="mt-6">
-              <button
-                onClick={() => setShowAddModal(true)}
-                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
-                <PlusIcon className="h-5 w-5 mr-2" />
-                Add IP Address
-              </button>
-            </div>
+            {canEdit && (
+              <div className="mt-6">
+                <button
+                  onClick={openAddModal}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+                  <PlusIcon className="h-5 w-5 mr-2" />
+                  Add IP Address
+                </button>
+              </div>
+            )}
           </div>
         ) : (
           <div className="overflow-x-auto">
@@ -190,7 +678,12 @@ export default function AllowlistPage() {
                   <th
                     scope="col"
                     className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    IP Address
+                    IP Address / Range
+                  </th>
+                  <th
+                    scope="col"
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Addresses
                   </th>
                   <th
                     scope="col"
@@ -202,6 +695,16 @@ export default function AllowlistPage() {
                     className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Added
                   </th>
+                  <th
+                    scope="col"
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Last Seen
+                  </th>
+                  <th
+                    scope="col"
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Expires
+                  </th>
                   <th
                     scope="col"
                     className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
@@ -210,7 +713,7 @@ export default function AllowlistPage() {
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {entries.map((entry) => (
+                {visibleEntries.map((entry) => (
                   <tr
                     key={entry.ip}
                     className="hover:bg-gray-50 transition-colors">
@@ -221,34 +724,231 @@ export default function AllowlistPage() {
                           {entry.ip}
                         </span>
                       </div>
+                      {overlaps[entry.ip] && (
+                        <div className="mt-1 ml-5 flex items-center text-xs text-yellow-700">
+                          <ExclamationTriangleIcon className="h-3 w-3 mr-1" />
+                          {overlaps[entry.ip].kind === "duplicate"
+                            ? "Duplicate of"
+                            : "Covered by"}{" "}
+                          {overlaps[entry.ip].by}
+                        </div>
+                      )}
+                      {conflicts[entry.ip] && (
+                        <div
+                          className="mt-1 ml-5 flex items-center text-xs text-red-700"
+                          title={conflicts[entry.ip]
+                            .map((d) => `${d.type} ${d.value} (${d.scenario})`)
+                            .join("\n")}>
+                          <ExclamationTriangleIcon className="h-3 w-3 mr-1" />
+                          Blocked by {conflicts[entry.ip].length} active
+                          decision
+                          {conflicts[entry.ip].length > 1 ? "s" : ""}
+                          {canEdit && (
+                            <button
+                              onClick={() => resolveConflicts(entry.ip)}
+                              disabled={resolving === entry.ip}
+                              className="ml-2 underline hover:text-red-900 disabled:opacity-50">
+                              {resolving === entry.ip
+                                ? "Removing..."
+                                : "Remove"}
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatAddressCount(entry.ip)}
                     </td>
                     <td className="px-6 py-4">
-                      <span className="text-sm text-gray-600">
-                        {entry.reason || "—"}
-                      </span>
+                      {rowEdit?.ip === entry.ip ? (
+                        <div className="space-y-2">
+                          <input
+                            type="text"
+                            aria-label="Reason"
+                            value={rowEdit.reason}
+                            onChange={(e) =>
+                              setRowEdit({ ...rowEdit, reason: e.target.value })
+                            }
+                            placeholder="Reason"
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                          <input
+                            type="text"
+                            aria-label="Tags"
+                            value={rowEdit.tags}
+                            onChange={(e) =>
+                              setRowEdit({ ...rowEdit, tags: e.target.value })
+                            }
+                            placeholder="Tags, e.g. vpn, office"
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      ) : (
+                        <>
+                          <span className="text-sm text-gray-600">
+                            {entry.reason || "—"}
+                          </span>
+                          {entry.tags.length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {entry.tags.map((tag) => (
+                                <span
+                                  key={tag}
+                                  className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full">
+                                  {tag}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {entry.created_at
-                        ? new Date(entry.created_at).toLocaleString()
+                      {entry.createdAt
+                        ? new Date(entry.createdAt).toLocaleString()
                         : "—"}
+                      {entry.updatedAt &&
+                        entry.updatedAt !== entry.createdAt && (
+                          <div className="text-xs text-gray-400">
+                            Edited {new Date(entry.updatedAt).toLocaleString()}
+                          </div>
+                        )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {!activity[entry.ip] ? (
+                        "—"
+                      ) : activity[entry.ip].lastSeen ? (
+                        <span
+                          title={`${activity[entry.ip].alerts} alerts, ${
+                            activity[entry.ip].decisions
+                          } active decisions`}>
+                          {formatDistanceStrict(
+                            activity[entry.ip].lastSeen as string,
+                            now,
+                            { addSuffix: true }
+                          )}
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">
+                          Not in {staleDays} days
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {rowEdit?.ip === entry.ip ? (
+                        <div className="space-y-2">
+                          <select
+                            aria-label="Expiry"
+                            value={rowEdit.expiry}
+                            onChange={(e) =>
+                              setRowEdit({ ...rowEdit, expiry: e.target.value })
+                            }
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500">
+                            <option value="keep">Keep current</option>
+                            <option value="">Never</option>
+                            {expiryPresets.map((p) => (
+                              <option key={p.value} value={p.value}>
+                                In {p.label}
+                              </option>
+                            ))}
+                            <option value="custom">Custom...</option>
+                          </select>
+                          {rowEdit.expiry === "custom" && (
+                            <input
+                              type="text"
+                              aria-label="Custom expiry"
+                              value={rowEdit.customExpiry}
+                              onChange={(e) =>
+                                setRowEdit({
+                                  ...rowEdit,
+                                  customExpiry: e.target.value,
+                                })
+                              }
+                              placeholder="e.g., 36h"
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          )}
+                        </div>
+                      ) : !entry.expiresAt ? (
+                        "Never"
+                      ) : Date.parse(entry.expiresAt) > now ? (
+                        <span
+                          className="inline-flex items-center text-yellow-700"
+                          title={new Date(entry.expiresAt).toLocaleString()}>
+                          <ClockIcon className="h-4 w-4 mr-1" />
+                          in {formatDistanceStrict(entry.expiresAt, now)}
+                        </span>
+                      ) : (
+                        <span className="text-red-600">Expired</span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <button
-                        onClick={() => handleDeleteEntry(entry.ip)}
-                        disabled={deleteInProgress === entry.ip}
-                        className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
-                        {deleteInProgress === entry.ip ? (
-                          <>
-                            <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-red-700 mr-1"></div>
-                            Removing...
-                          </>
-                        ) : (
+                      {rowEdit?.ip === entry.ip ? (
+                        <>
+                          <button
+                            onClick={saveEdit}
+                            disabled={savingEdit}
+                            className="mr-2 inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+                            {savingEdit ? "Saving..." : "Save"}
+                          </button>
+                          <button
+                            onClick={() => setRowEdit(null)}
+                            disabled={savingEdit}
+                            className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors">
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        canEdit && (
                           <>
-                            <TrashIcon className="h-4 w-4 mr-1" />
-                            Remove
+                            <button
+                              onClick={() => startEdit(entry)}
+                              title="Edit reason, tags and expiry"
+                              className="mr-2 inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors">
+                              <PencilSquareIcon className="h-4 w-4 mr-1" />
+                              Edit
+                            </button>
+                            {groups.length > 1 && (
+                              <select
+                                aria-label={`Move ${entry.ip} to another list`}
+                                value=""
+                                disabled={movingIp === entry.ip}
+                                onChange={(e) =>
+                                  moveEntry(entry.ip, e.target.value)
+                                }
+                                className="mr-2 px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50">
+                                <option value="" disabled>
+                                  {movingIp === entry.ip
+                                    ? "Moving..."
+                                    : "Move to..."}
+                                </option>
+                                {groups
+                                  .filter((g) => g.id !== entry.group)
+                                  .map((g) => (
+                                    <option key={g.id} value={g.id}>
+                                      {g.name}
+                                    </option>
+                                  ))}
+                              </select>
+                            )}
+                            <button
+                              onClick={() => handleDeleteEntry(entry.ip)}
+                              disabled={deleteInProgress === entry.ip}
+                              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+                              {deleteInProgress === entry.ip ? (
+                                <>
+                                  <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-red-700 mr-1"></div>
+                                  Removing...
+                                </>
+                              ) : (
+                                <>
+                                  <TrashIcon className="h-4 w-4 mr-1" />
+                                  Remove
+                                </>
+                              )}
+                            </button>
                           </>
-                        )}
-                      </button>
+                        )
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -258,6 +958,104 @@ export default function AllowlistPage() {
         )}
       </div>
 
+      {staleDays !== null && entries.length > 0 && (
+        <details className="mt-6 bg-white shadow rounded-xl border border-gray-100">
+          <summary className="flex cursor-pointer items-center px-6 py-4 text-sm font-medium text-gray-700">
+            <ExclamationTriangleIcon className="h-4 w-4 mr-2 text-gray-400" />
+            Stale entries ({stale.length})
+          </summary>
+          <div className="flex items-center justify-between border-t border-gray-100 px-6 py-3 text-sm text-gray-500">
+            <span>
+              No alert or decision involved these entries in the last{" "}
+              {staleDays} days.
+              {activityTruncated &&
+                " Only the most recent alerts were scanned, so some hits may be missing."}
+            </span>
+            <select
+              aria-label="Stale after"
+              value={staleDays}
+              onChange={(e) => setStalePeriod(Number(e.target.value))}
+              className="ml-4 px-2 py-1 text-sm border border-gray-300 rounded-md text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500">
+              {[...new Set([...stalePeriods, staleDays])]
+                .sort((a, b) => a - b)
+                .map((days) => (
+                  <option key={days} value={days}>
+                    {days} days
+                  </option>
+                ))}
+            </select>
+          </div>
+          {stale.length > 0 && (
+            <ul className="divide-y divide-gray-100 border-t border-gray-100">
+              {stale.map((ip) => {
+                const entry = entries.find((e) => e.ip === ip);
+                return (
+                  <li
+                    key={ip}
+                    className="flex items-center justify-between px-6 py-3 text-sm">
+                    <span>
+                      <span className="font-medium text-gray-900">{ip}</span>
+                      <span className="ml-2 text-gray-500">
+                        {entry?.reason || "—"} ·{" "}
+                        {groups.find((g) => g.id === entry?.group)?.name}
+                      </span>
+                    </span>
+                    {canEdit && (
+                      <button
+                        onClick={() => handleDeleteEntry(ip)}
+                        disabled={deleteInProgress === ip}
+                        className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+                        <TrashIcon className="h-4 w-4 mr-1" />
+                        {deleteInProgress === ip ? "Removing..." : "Remove"}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </details>
+      )}
+
+      {expired.length > 0 && (
+        <details className="mt-6 bg-white shadow rounded-xl border border-gray-100">
+          <summary className="flex cursor-pointer items-center px-6 py-4 text-sm font-medium text-gray-700">
+            <ClockIcon className="h-4 w-4 mr-2 text-gray-400" />
+            Recently expired ({expired.length})
+          </summary>
+          <ul className="divide-y divide-gray-100 border-t border-gray-100">
+            {expired.map((e) => (
+              <li
+                key={`${e.ip}:${e.removedAt}`}
+                className="flex items-center justify-between px-6 py-3 text-sm">
+                <span className="font-medium text-gray-900">{e.ip}</span>
+                <span className="text-gray-500">
+                  {e.reason || "—"} · removed{" "}
+                  {new Date(e.removedAt).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {showGroupModal && (
+        <AllowlistGroupModal
+          group={editingGroup}
+          onClose={() => setShowGroupModal(false)}
+          onSaved={handleGroupSaved}
+        />
+      )}
+
+      {showImportModal && currentGroup && (
+        <ImportAllowlistModal
+          entries={entries}
+          group={currentGroup}
+          onClose={() => setShowImportModal(false)}
+          onImported={fetchAllowlist}
+        />
+      )}
+
       {/* Add IP Modal */}
       {showAddModal && (
         <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
@@ -280,7 +1078,7 @@ export default function AllowlistPage() {
                   <label
                     htmlFor="ip"
                     className="block text-sm font-medium text-gray-700 mb-1">
-                    IP Address <span className="text-red-500">*</span>
+                    IP Address or Range <span className="text-red-500">*</span>
                   </label>
                   <input
                     type="text"
@@ -288,9 +1086,88 @@ export default function AllowlistPage() {
                     required
                     value={newIp}
                     onChange={(e) => setNewIp(e.target.value)}
-                    placeholder="e.g., 192.168.1.100"
+                    placeholder="e.g., 192.168.1.100, 10.0.0.0/8 or 2001:db8::/32"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   />
+                  {newEntry?.error !== undefined && (
+                    <p className="mt-1 text-xs text-red-600">
+                      {newEntry.error}
+                    </p>
+                  )}
+                  {newCanonical && newCanonical !== newIp.trim() && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Will be saved as {newCanonical}
+                    </p>
+                  )}
+                  {newCidr && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Covers {formatAddressCount(newCanonical!)} address
+                      {addressCount(newCidr) === BigInt(1) ? "" : "es"}
+                    </p>
+                  )}
+                  {coveringEntry && (
+                    <p className="mt-1 text-xs text-yellow-700">
+                      Already covered by {coveringEntry.ip}
+                    </p>
+                  )}
+                  {coveredEntries.length > 0 && (
+                    <p className="mt-1 text-xs text-yellow-700">
+                      Makes {coveredEntries.length} existing{" "}
+                      {coveredEntries.length === 1 ? "entry" : "entries"}{" "}
+                      redundant: {coveredEntries.map((e) => e.ip).join(", ")}
+                    </p>
+                  )}
+                </div>
+                {groups.length > 1 && (
+                  <div>
+                    <label
+                      htmlFor="group"
+                      className="block text-sm font-medium text-gray-700 mb-1">
+                      List
+                    </label>
+                    <select
+                      id="group"
+                      value={newGroup}
+                      onChange={(e) => setNewGroup(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                      {groups.map((g) => (
+                        <option key={g.id} value={g.id}>
+                          {g.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label
+                    htmlFor="expiry"
+                    className="block text-sm font-medium text-gray-700 mb-1">
+                    Expires after
+                  </label>
+                  <div className="flex space-x-2">
+                    <select
+                      id="expiry"
+                      value={expiryPreset}
+                      onChange={(e) => setExpiryPreset(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                      <option value="">Never</option>
+                      {expiryPresets.map((p) => (
+                        <option key={p.value} value={p.value}>
+                          {p.label}
+                        </option>
+                      ))}
+                      <option value="custom">Custom...</option>
+                    </select>
+                    {expiryPreset === "custom" && (
+                      <input
+                        type="text"
+                        value={customExpiry}
+                        onChange={(e) => setCustomExpiry(e.target.value)}
+                        placeholder="e.g., 36h"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    )}
+                  </div>
                 </div>
                 <div>
                   <label
@@ -307,6 +1184,30 @@ export default function AllowlistPage() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
                   />
                 </div>
+                <div>
+                  <label
+                    htmlFor="tags"
+                    className="block text-sm font-medium text-gray-700 mb-1">
+                    Tags (optional)
+                  </label>
+                  <input
+                    type="text"
+                    id="tags"
+                    value={newTags}
+                    onChange={(e) => setNewTags(e.target.value)}
+                    placeholder="e.g., vpn, office"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={removeConflicting}
+                    onChange={(e) => setRemoveConflicting(e.target.checked)}
+                    className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  Also remove active decisions that block this address
+                </label>
               </div>
               <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3 rounded-b-xl">
                 <button
@@ -317,7 +1218,7 @@ export default function AllowlistPage() {
                 </button>
                 <button
                   type="submit"
-                  disabled={submitting || !newIp.trim()}
+                  disabled={submitting || !newCanonical}
                   className="px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
                   {submitting ? "Adding..." : "Add to Allowlist"}
                 </button>
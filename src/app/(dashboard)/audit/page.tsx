@@ -0,0 +1,379 @@
+"use client";
+
+import { ArrowDownTrayIcon, FunnelIcon } from "@heroicons/react/24/outline";
+import { useCallback, useEffect, useState } from "react";
+
+import { format } from "date-fns";
+import { authFetch } from "@/lib/fetch";
+import {
+  AUDIT_ACTIONS,
+  auditFiltersToQuery,
+  type AuditFilters,
+  type AuditRecord,
+  type AuditResponse,
+} from "@/lib/models";
+
+const PAGE_SIZE = 50;
+
+// Before and after states are free-form, so they are shown as JSON
+function describeState(value: unknown) {
+  if (value === null || value === undefined) return null;
+  return JSON.stringify(value, null, 2);
+}
+
+export default function AuditPage() {
+  const [actorFilter, setActorFilter] = useState("");
+  const [actionFilter, setActionFilter] = useState("All");
+  const [targetFilter, setTargetFilter] = useState("");
+  const [fromFilter, setFromFilter] = useState("");
+  const [toFilter, setToFilter] = useState("");
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const fetchPage = useCallback(
+    async (cursor?: number) => {
+      const query = auditFiltersToQuery(filters);
+      query.set("limit", String(PAGE_SIZE));
+      if (cursor !== undefined) query.set("cursor", String(cursor));
+      const res = await authFetch(`/api/audit?${query}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load audit log");
+      if (!Array.isArray(data.records)) throw new Error("Invalid data");
+      return data as AuditResponse;
+    },
+    [filters]
+  );
+
+  function applyPage(data: AuditResponse, append: boolean) {
+    setRecords((prev) => (append ? [...prev, ...data.records] : data.records));
+    setTotal(data.total);
+    setNextCursor(data.nextCursor);
+    setError(null);
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchPage()
+      .then((data) => {
+        if (!cancelled) applyPage(data, false);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message || "Failed to load");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage]);
+
+  async function loadMore() {
+    if (nextCursor === null) return;
+    setLoadingMore(true);
+    try {
+      applyPage(await fetchPage(nextCursor), true);
+    } catch (err) {
+      setError((err as Error).message || "Failed to load");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  function applyFilters(e: React.FormEvent) {
+    e.preventDefault();
+    setFilters({
+      actor: actorFilter.trim() || undefined,
+      action:
+        actionFilter === "All"
+          ? undefined
+          : (actionFilter as AuditFilters["action"]),
+      target: targetFilter.trim() || undefined,
+      from: fromFilter || undefined,
+      to: toFilter || undefined,
+      failedOnly: failedOnly || undefined,
+    });
+    setExpanded(null);
+  }
+
+  // Same filters as the table; the route answers with Content-Disposition,
+  // so this downloads in place
+  const exportCsv = () => {
+    window.location.href = `/api/audit/export?${auditFiltersToQuery(filters)}`;
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+          <p className="mt-2 text-gray-600">
+            Who changed decisions, alerts and the allowlist, and when
+          </p>
+        </div>
+        <button
+          onClick={exportCsv}
+          title="Export the records matching the current filters"
+          className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors shadow-sm">
+          <ArrowDownTrayIcon className="h-5 w-5 mr-2" />
+          CSV
+        </button>
+      </div>
+
+      {error && <div className="text-center text-red-500 p-8">{error}</div>}
+
+      {/* Filters */}
+      <form onSubmit={applyFilters} className="bg-white shadow rounded-lg mb-6">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Actor
+              </label>
+              <input
+                type="text"
+                placeholder="e.g., alice@example.com"
+                value={actorFilter}
+                onChange={(e) => setActorFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Action
+              </label>
+              <select
+                value={actionFilter}
+                onChange={(e) => setActionFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                <option value="All">All Actions</option>
+                {AUDIT_ACTIONS.map((action) => (
+                  <option key={action} value={action}>
+                    {action}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Target
+              </label>
+              <input
+                type="text"
+                placeholder="e.g., 192.0.2.10 or a decision id"
+                value={targetFilter}
+                onChange={(e) => setTargetFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                From
+              </label>
+              <input
+                type="date"
+                value={fromFilter}
+                onChange={(e) => setFromFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                To
+              </label>
+              <input
+                type="date"
+                value={toFilter}
+                onChange={(e) => setToFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <div className="flex items-end justify-between">
+              <label className="inline-flex items-center py-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={failedOnly}
+                  onChange={(e) => setFailedOnly(e.target.checked)}
+                  className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                Failed only
+              </label>
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
+                <FunnelIcon className="h-4 w-4 mr-2" />
+                Apply
+              </button>
+            </div>
+          </div>
+        </div>
+      </form>
+
+      {/* Records */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Time", "Actor", "Action", "Target", "Result", ""].map(
+                  (h) => (
+                    <th
+                      key={h}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {h}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading && (
+                <tr>
+                  <td
+                    colSpan={6}
+                    className="px-6 py-8 text-center text-gray-500">
+                    Loading...
+                  </td>
+                </tr>
+              )}
+              {!loading && records.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={6}
+                    className="px-6 py-8 text-center text-gray-500">
+                    No audit records match these filters
+                  </td>
+                </tr>
+              )}
+              {records.map((record) => (
+                <AuditRow
+                  key={record.id}
+                  record={record}
+                  expanded={expanded === record.id}
+                  onToggle={() =>
+                    setExpanded((id) => (id === record.id ? null : record.id))
+                  }
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+          <p className="text-sm text-gray-600">
+            {records.length} of {total} records displayed
+          </p>
+          {nextCursor !== null && (
+            <button
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50">
+              {loadingMore ? "Loading..." : "Load more"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function AuditRow({
+  record,
+  expanded,
+  onToggle,
+}: {
+  record: AuditRecord;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  const before = describeState(record.before);
+  const after = describeState(record.after);
+  return (
+    <>
+      <tr className="hover:bg-gray-50">
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+          {format(new Date(record.timestamp), "MMM dd, HH:mm:ss")}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+          {record.actor}
+          {record.clientIp && (
+            <div className="text-xs text-gray-500">{record.clientIp}</div>
+          )}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+          {record.action}
+        </td>
+        <td
+          className="px-6 py-4 truncate max-w-[240px] text-sm text-gray-900"
+          title={record.target}>
+          {record.target || "-"}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm">
+          <span
+            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+              record.result.ok
+                ? "bg-green-100 text-green-800"
+                : "bg-red-100 text-red-800"
+            }`}>
+            {record.result.ok ? "OK" : "Failed"}
+            {record.result.status !== null && ` · ${record.result.status}`}
+          </span>
+          {record.result.error && (
+            <div
+              className="mt-1 text-xs text-red-600 truncate max-w-[240px]"
+              title={record.result.error}>
+              {record.result.error}
+            </div>
+          )}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm">
+          {(before || after) && (
+            <button
+              onClick={onToggle}
+              className="text-blue-600 hover:text-blue-900">
+              {expanded ? "Hide" : "Details"}
+            </button>
+          )}
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="bg-gray-50">
+          <td colSpan={6} className="px-6 py-4">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              {[
+                ["Before", before],
+                ["After", after],
+              ].map(([label, state]) => (
+                <div key={label}>
+                  <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">
+                    {label}
+                  </p>
+                  <pre className="max-h-64 overflow-auto rounded-md border border-gray-200 bg-white p-3 text-xs text-gray-800">
+                    {state ?? "—"}
+                  </pre>
+                </div>
+              ))}
+            </div>
+            {record.requestId && (
+              <p className="mt-2 text-xs text-gray-500">
+                Request {record.requestId}
+              </p>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -1,20 +1,46 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 "use client";
 
 import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
   CheckIcon,
   ClipboardDocumentListIcon,
   ClockIcon,
   EyeIcon,
   FunnelIcon,
   MagnifyingGlassIcon,
+  PencilSquareIcon,
+  PlusIcon,
   ShieldCheckIcon,
   TrashIcon,
   XMarkIcon,
 } from "@heroicons/react/24/outline";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 
 import { format } from "date-fns";
+import { SchemaIssuesNotice } from "@/components/SchemaIssuesNotice";
+import { useAuth } from "@/contexts/AuthContext";
+import { AddDecisionModal } from "@/components/decisions/AddDecisionModal";
+import { ImportBlocklistModal } from "@/components/decisions/ImportBlocklistModal";
+import { EditDecisionModal } from "@/components/decisions/EditDecisionModal";
+import { authFetch } from "@/lib/fetch";
+import { isCidr } from "@/lib/ip";
+import {
+  decisionFiltersToQuery,
+  hasDecisionScopeFilter,
+  hasRole,
+  type BulkDeleteResponse,
+  type BulkDeleteResult,
+  type Decision,
+  type DecisionFilters,
+  type DecisionsResponse,
+  type DecisionTotals,
+  type DeleteByFilterPreview,
+  type SchemaIssue,
+  type UpdateDecisionResponse,
+} from "@/lib/models";
+
+const PAGE_SIZE = 25;
 
 // ISO 3166-1 alpha-2 (e.g. "FR", "US") to Unicode flag
 function isoToFlag(iso: string) {
@@ -52,46 +78,189 @@ export default function DecisionsPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [typeFilter, setTypeFilter] = useState("All");
   const [statusFilter, setStatusFilter] = useState("All");
+  const [scopeFilter, setScopeFilter] = useState("All");
+  const [originFilter, setOriginFilter] = useState("All");
+  const [scenarioFilter, setScenarioFilter] = useState("");
+  const [rangeFilter, setRangeFilter] = useState("");
+  const [filters, setFilters] = useState<DecisionFilters>({});
   const [selectedDecisions, setSelectedDecisions] = useState<number[]>([]);
-  const [decisions, setDecisions] = useState<any[]>([]);
+  const [decisions, setDecisions] = useState<Decision[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totals, setTotals] = useState<DecisionTotals | null>(null);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [allowlisted, setAllowlisted] = useState<Record<number, string>>({});
+  const [schemaIssues, setSchemaIssues] = useState<SchemaIssue[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [visibleCount, setVisibleCount] = useState(10);
   const [busyIds, setBusyIds] = useState<number[]>([]);
+  const [deleteFailures, setDeleteFailures] = useState<BulkDeleteResult[]>([]);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [editing, setEditing] = useState<Decision | null>(null);
+  const [deletingMatching, setDeletingMatching] = useState(false);
+  // Viewers get a read-only table
+  const { role } = useAuth();
+  const canEdit = hasRole(role, "operator");
+
+  const fetchPage = useCallback(
+    async (cursor?: number) => {
+      const query = decisionFiltersToQuery(filters);
+      query.set("limit", String(PAGE_SIZE));
+      if (cursor !== undefined) query.set("cursor", String(cursor));
+      const res = await authFetch(`/api/decisions?${query}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load decisions");
+      if (!Array.isArray(data.decisions)) throw new Error("Invalid data");
+      return data as DecisionsResponse;
+    },
+    [filters]
+  );
+
+  function applyPage(data: DecisionsResponse, append: boolean) {
+    setDecisions((prev) =>
+      append ? [...prev, ...data.decisions] : data.decisions
+    );
+    setAllowlisted((prev) =>
+      append ? { ...prev, ...data.allowlisted } : data.allowlisted || {}
+    );
+    setTotal(data.total);
+    setTotals(data.totals);
+    setNextCursor(data.nextCursor);
+    setSchemaIssues(data.schemaIssues || []);
+    setError(null);
+  }
 
   useEffect(() => {
+    let cancelled = false;
     setLoading(true);
-    fetch("/api/decisions")
-      .then(async (res) => {
-        if (!res.ok) throw new Error("Failed to load decisions");
-        const data = await res.json();
-        if (!Array.isArray(data.decisions)) throw new Error("Invalid data");
-        setDecisions(data.decisions);
-        setLoading(false);
+    fetchPage()
+      .then((data) => {
+        if (cancelled) return;
+        applyPage(data, false);
+        setSelectedDecisions([]);
       })
       .catch((err) => {
-        setError(err.message || "Failed to load");
-        setLoading(false);
+        if (!cancelled) setError(err.message || "Failed to load");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
       });
-  }, []);
-
-  const filteredDecisions = decisions.filter((decision) => {
-    const meta = decision.metadata || {};
-    const matchesSearch =
-      decision.value.includes(searchTerm) ||
-      (decision.scenario || "")
-        .toLowerCase()
-        .includes(searchTerm.toLowerCase()) ||
-      (meta.asnOrg || "").toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (decision.origin || "").toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = typeFilter === "All" || decision.type === typeFilter;
-    const status = decision.simulated ? "Simulated" : "Active";
-    const matchesStatus = statusFilter === "All" || statusFilter === status;
-    return matchesSearch && matchesType && matchesStatus;
-  });
-
-  const pagedDecisions = filteredDecisions.slice(0, visibleCount);
-  const canLoadMore = visibleCount < filteredDecisions.length;
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage]);
+
+  async function loadMore() {
+    if (nextCursor === null) return;
+    setLoadingMore(true);
+    try {
+      applyPage(await fetchPage(nextCursor), true);
+    } catch (err) {
+      setError((err as Error).message || "Failed to load");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  async function reload() {
+    try {
+      applyPage(await fetchPage(), false);
+    } catch (err) {
+      setError((err as Error).message || "Failed to load");
+    }
+  }
+
+  // Show a new decision at the top of the table (ids grow, and the list is
+  // newest first); fall back to reloading when upstream didn't return it.
+  function handleCreated(decision: Decision | null) {
+    setShowAddModal(false);
+    if (!decision) {
+      void reload();
+      return;
+    }
+    setDecisions((prev) => [decision, ...prev]);
+    setTotal((t) => t + 1);
+    setTotals(
+      (prev) =>
+        prev && {
+          ...prev,
+          all: prev.all + 1,
+          byType: {
+            ...prev.byType,
+            [decision.type]: (prev.byType[decision.type] || 0) + 1,
+          },
+        }
+    );
+  }
+
+  // The update replaces the decision upstream, so swap the row in place
+  // under its new id
+  function handleUpdated({ decision, replacedId }: UpdateDecisionResponse) {
+    const previous = editing;
+    setEditing(null);
+    if (!decision || !previous) {
+      void reload();
+      return;
+    }
+    setDecisions((prev) =>
+      prev.map((d) => (d.id === replacedId ? decision : d))
+    );
+    setSelectedDecisions((s) => s.filter((x) => x !== replacedId));
+    if (decision.type !== previous.type) {
+      setTotals(
+        (prev) =>
+          prev && {
+            ...prev,
+            byType: {
+              ...prev.byType,
+              [previous.type]: (prev.byType[previous.type] || 1) - 1,
+              [decision.type]: (prev.byType[decision.type] || 0) + 1,
+            },
+          }
+      );
+    }
+  }
+
+  function applyFilters(e: React.FormEvent) {
+    e.preventDefault();
+    const pick = (value: string) => (value === "All" ? undefined : value);
+    const range = rangeFilter.trim();
+    if (range && !isCidr(range)) {
+      setError("Range must be a CIDR range such as 192.0.2.0/24");
+      return;
+    }
+    setFilters({
+      q: searchTerm.trim() || undefined,
+      type: pick(typeFilter),
+      scope: pick(scopeFilter),
+      origin: pick(originFilter),
+      scenario: scenarioFilter.trim() || undefined,
+      range: range || undefined,
+      simulated:
+        statusFilter === "All" ? undefined : statusFilter === "Simulated",
+    });
+  }
+
+  // Drop deleted rows locally and keep the counters in step without
+  // refetching the whole list
+  function forgetDecisions(ids: number[]) {
+    const removed = decisions.filter((d) => ids.includes(d.id));
+    setDecisions((prev) => prev.filter((d) => !ids.includes(d.id)));
+    setSelectedDecisions((s) => s.filter((x) => !ids.includes(x)));
+    setTotal((t) => t - removed.length);
+    setTotals((prev) => {
+      if (!prev) return prev;
+      const byType = { ...prev.byType };
+      for (const d of removed) byType[d.type] = (byType[d.type] || 1) - 1;
+      return {
+        ...prev,
+        all: prev.all - removed.length,
+        simulated: prev.simulated - removed.filter((d) => d.simulated).length,
+        byType,
+      };
+    });
+  }
 
   const handleSelectDecision = (decisionId: number) => {
     setSelectedDecisions((prev) =>
@@ -102,22 +271,29 @@ export default function DecisionsPage() {
   };
 
   const handleSelectAll = () => {
-    if (selectedDecisions.length === pagedDecisions.length) {
+    if (selectedDecisions.length === decisions.length) {
       setSelectedDecisions([]);
     } else {
-      setSelectedDecisions(pagedDecisions.map((decision) => decision.id));
+      setSelectedDecisions(decisions.map((decision) => decision.id));
     }
   };
 
   async function deleteOne(id: number) {
     try {
       setBusyIds((b) => [...b, id]);
-      const res = await fetch(`/api/decisions/${id}`, { method: "DELETE" });
-      if (!res.ok) throw new Error(await res.text());
-      setDecisions((prev) => prev.filter((d) => d.id !== id));
-      setSelectedDecisions((s) => s.filter((x) => x !== id));
+      setDeleteFailures([]);
+      const res = await authFetch(`/api/decisions/${id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data?.error || "Delete failed");
+      }
+      forgetDecisions([id]);
     } catch (e) {
       console.error("Delete failed", e);
+      // Listed and highlighted like a failed bulk delete
+      setDeleteFailures([
+        { id, status: "error", error: (e as Error).message || "Delete failed" },
+      ]);
     } finally {
       setBusyIds((b) => b.filter((x) => x !== id));
     }
@@ -128,39 +304,138 @@ export default function DecisionsPage() {
     if (ids.length === 0) return;
     try {
       setBusyIds((b) => [...b, ...ids]);
-      const res = await fetch(`/api/decisions/bulk-delete`, {
+      setDeleteFailures([]);
+      const res = await authFetch(`/api/decisions/bulk-delete`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ ids }),
       });
-      if (!res.ok) throw new Error(await res.text());
-      setDecisions((prev) => prev.filter((d) => !ids.includes(d.id)));
-      setSelectedDecisions([]);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Bulk delete failed");
+      const { results } = data as BulkDeleteResponse;
+      // Rows already gone upstream are stale either way; failed ones stay
+      // selected so they can be retried
+      forgetDecisions(
+        results.filter((r) => r.status !== "error").map((r) => r.id)
+      );
+      setDeleteFailures(results.filter((r) => r.status === "error"));
     } catch (e) {
       console.error("Bulk delete failed", e);
+      setError((e as Error).message || "Bulk delete failed");
     } finally {
       setBusyIds((b) => b.filter((x) => !ids.includes(x)));
     }
   }
 
-  // Stats (unchanged)
-  const bans = decisions.filter((d) => d.type === "ban").length;
-  const captchas = decisions.filter((d) => d.type === "captcha").length;
-  const activeDecisions = decisions.length;
+  // Count what the current filters match server side, confirm, then delete
+  // all of it (not only the loaded pages)
+  async function deleteMatching() {
+    const query = decisionFiltersToQuery(filters);
+    const post = async (dryRun: boolean, expected?: number) => {
+      const res = await authFetch(
+        `/api/decisions/bulk-delete/by-filter?${query}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ dryRun, expected }),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Delete by filter failed");
+      return data;
+    };
+
+    setDeletingMatching(true);
+    setDeleteFailures([]);
+    try {
+      const { matched } = (await post(true)) as DeleteByFilterPreview;
+      if (
+        matched === 0 ||
+        !confirm(
+          `Delete all ${matched} decision${
+            matched > 1 ? "s" : ""
+          } matching the current filters?`
+        )
+      ) {
+        return;
+      }
+      const { results } = (await post(false, matched)) as BulkDeleteResponse;
+      setDeleteFailures(results.filter((r) => r.status === "error"));
+      await reload();
+    } catch (e) {
+      console.error("Delete by filter failed", e);
+      setError((e as Error).message || "Delete by filter failed");
+    } finally {
+      setDeletingMatching(false);
+    }
+  }
+
+  // The same rule as the by-filter route: scoped, and no text search
+  const canDeleteMatching = hasDecisionScopeFilter(filters) && !filters.q;
+
+  // Stats cover every decision, not only the loaded pages
+  const bans = totals?.byType.ban ?? 0;
+  const captchas = totals?.byType.captcha ?? 0;
+  const activeDecisions = totals?.all ?? 0;
+
+  // Same filters as the table; the route answers with Content-Disposition,
+  // so this downloads in place
+  const exportDecisions = (format: "csv" | "json") => {
+    const query = decisionFiltersToQuery(filters);
+    query.set("format", format);
+    window.location.href = `/api/decisions/export?${query}`;
+  };
 
   return (
     <div className="p-6">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900">Security Decisions</h1>
-        <p className="mt-2 text-gray-600">
-          Manage active security decisions and enforcement actions
-        </p>
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            Security Decisions
+          </h1>
+          <p className="mt-2 text-gray-600">
+            Manage active security decisions and enforcement actions
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => exportDecisions("csv")}
+            title="Export the decisions matching the current filters"
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors shadow-sm">
+            <ArrowDownTrayIcon className="h-5 w-5 mr-2" />
+            CSV
+          </button>
+          <button
+            onClick={() => exportDecisions("json")}
+            title="Export the decisions matching the current filters"
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors shadow-sm">
+            <ArrowDownTrayIcon className="h-5 w-5 mr-2" />
+            JSON
+          </button>
+          {canEdit && (
+            <>
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors shadow-sm">
+                <ArrowUpTrayIcon className="h-5 w-5 mr-2" />
+                Import
+              </button>
+              <button
+                onClick={() => setShowAddModal(true)}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors shadow-sm">
+                <PlusIcon className="h-5 w-5 mr-2" />
+                Add decision
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {loading && (
         <div className="text-center text-gray-500 p-8">Loading...</div>
       )}
       {error && <div className="text-center text-red-500 p-8">{error}</div>}
+      <SchemaIssuesNotice issues={schemaIssues} />
 
       {/* Stats */}
       <div className="grid grid-cols-1 gap-5 sm:grid-cols-4 mb-8">
@@ -233,7 +508,7 @@ export default function DecisionsPage() {
                     Simulated
                   </dt>
                   <dd className="text-2xl font-semibold text-gray-900">
-                    {decisions.filter((d) => d.simulated).length}
+                    {totals?.simulated ?? 0}
                   </dd>
                 </dl>
               </div>
@@ -243,9 +518,9 @@ export default function DecisionsPage() {
       </div>
 
       {/* Filters and Search */}
-      <div className="bg-white shadow rounded-lg mb-6">
+      <form onSubmit={applyFilters} className="bg-white shadow rounded-lg mb-6">
         <div className="px-4 py-5 sm:p-6">
-          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Search
@@ -287,24 +562,128 @@ export default function DecisionsPage() {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
                 <option value="All">All Statuses</option>
                 <option value="Active">Active</option>
-                <option value="Expired">Expired</option>
-                <option value="Revoked">Revoked</option>
-                <option value="Pending">Pending</option>
+                <option value="Simulated">Simulated</option>
               </select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Scope
+              </label>
+              <select
+                value={scopeFilter}
+                onChange={(e) => setScopeFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                <option value="All">All Scopes</option>
+                <option value="Ip">Ip</option>
+                <option value="Range">Range</option>
+                <option value="Country">Country</option>
+                <option value="AS">AS</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Origin
+              </label>
+              <select
+                value={originFilter}
+                onChange={(e) => setOriginFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                <option value="All">All Origins</option>
+                <option value="crowdsec">crowdsec</option>
+                <option value="cscli">cscli</option>
+                <option value="CAPI">CAPI</option>
+                <option value="lists">lists</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Scenario
+              </label>
+              <input
+                type="text"
+                placeholder="e.g., crowdsecurity/ssh-bf"
+                value={scenarioFilter}
+                onChange={(e) => setScenarioFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Range
+              </label>
+              <input
+                type="text"
+                placeholder="e.g., 192.0.2.0/24"
+                value={rangeFilter}
+                onChange={(e) => setRangeFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
             <div className="flex items-end">
-              <button className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500">
+              <button
+                type="submit"
+                className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500">
                 <FunnelIcon className="h-4 w-4 mr-2" />
                 Apply Filters
               </button>
             </div>
           </div>
         </div>
-      </div>
+      </form>
+
+      {canEdit && canDeleteMatching && total > 0 && (
+        <div className="bg-white shadow rounded-lg p-4 mb-6">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-700">
+              {total} decision{total > 1 ? "s" : ""} match the current filters
+            </span>
+            <button
+              onClick={deleteMatching}
+              disabled={deletingMatching}
+              className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50">
+              <TrashIcon className="h-4 w-4 mr-1" />
+              {deletingMatching ? "Deleting..." : "Delete matching"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {deleteFailures.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="text-sm font-medium text-red-800">
+                {deleteFailures.length} decision
+                {deleteFailures.length > 1 ? "s" : ""} could not be deleted
+              </p>
+              <ul className="mt-2 space-y-1 text-sm text-red-700">
+                {deleteFailures.map((f) => (
+                  <li key={f.id}>
+                    <span className="font-mono">
+                      {decisions.find((d) => d.id === f.id)?.value ??
+                        `#${f.id}`}
+                    </span>
+                    : {f.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <button
+              onClick={() => setDeleteFailures([])}
+              className="text-red-400 hover:text-red-500">
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+      )}
 
       {/* Actions Bar */}
-      {selectedDecisions.length > 0 && (
+      {canEdit && selectedDecisions.length > 0 && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
           <div className="flex items-center justify-between">
             <span className="text-sm font-medium text-blue-800">
@@ -332,10 +711,11 @@ export default function DecisionsPage() {
                   <input
                     type="checkbox"
                     checked={
-                      selectedDecisions.length === pagedDecisions.length &&
-                      pagedDecisions.length > 0
+                      selectedDecisions.length === decisions.length &&
+                      decisions.length > 0
                     }
                     onChange={handleSelectAll}
+                    disabled={!canEdit}
                     className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                   />
                 </th>
@@ -369,103 +749,143 @@ export default function DecisionsPage() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {pagedDecisions.map((decision) => {
-                const meta = decision.metadata || {};
-                return (
-                  <tr key={decision.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <input
-                        type="checkbox"
-                        checked={selectedDecisions.includes(decision.id)}
-                        onChange={() => handleSelectDecision(decision.id)}
-                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                      />
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={typeBadge(decision.type)}>
-                        {decision.type}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">
-                        {decision.value}
+              {decisions.map((decision) => (
+                <tr
+                  key={decision.id}
+                  className={
+                    deleteFailures.some((f) => f.id === decision.id)
+                      ? "bg-red-50"
+                      : "hover:bg-gray-50"
+                  }>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={selectedDecisions.includes(decision.id)}
+                      onChange={() => handleSelectDecision(decision.id)}
+                      disabled={!canEdit}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={typeBadge(decision.type)}>
+                      {decision.type}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {decision.value}
+                    </div>
+                    {allowlisted[decision.id] && (
+                      <div
+                        className="mt-1 inline-flex items-center rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800"
+                        title="This decision matches an allowlist entry">
+                        Allowlisted by {allowlisted[decision.id]}
                       </div>
-                      <div className="text-sm text-gray-500">
-                        {meta.isoCode || "-"} • {meta.asnNumber || "-"}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {decision.origin}
-                    </td>
-                    <td
-                      className="px-6 py-4 truncate max-w-[160px]"
-                      title={decision.scenario || ""}>
-                      {decision.scenario}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {decision.scope}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {decision.duration}
-                    </td>
-                    <td
-                      className="px-6 py-4 truncate max-w-[160px]"
-                      title={meta.asnOrg || ""}>
-                      {meta.asnOrg || "-"}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span
-                        title={meta.isoCode || ""}
-                        className="flex items-center">
-                        <span className="mr-1 text-xl">
-                          {isoToFlag(meta.isoCode || "")}
-                        </span>
-                        <span className="text-xs text-gray-500">
-                          {meta.isoCode || "-"}
-                        </span>
+                    )}
+                    <div className="text-sm text-gray-500">
+                      {decision.isoCode || "-"} • {decision.asnNumber || "-"}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {decision.origin}
+                  </td>
+                  <td
+                    className="px-6 py-4 truncate max-w-[160px]"
+                    title={decision.scenario}>
+                    {decision.scenario}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {decision.scope}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {decision.duration}
+                  </td>
+                  <td
+                    className="px-6 py-4 truncate max-w-[160px]"
+                    title={decision.asnOrg || ""}>
+                    {decision.asnOrg || "-"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      title={decision.isoCode || ""}
+                      className="flex items-center">
+                      <span className="mr-1 text-xl">
+                        {isoToFlag(decision.isoCode || "")}
                       </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {meta.timestamp
-                        ? format(new Date(meta.timestamp), "MMM dd, HH:mm")
-                        : "-"}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                      <div className="flex space-x-2">
-                        <button className="text-blue-600 hover:text-blue-900">
-                          <EyeIcon className="h-4 w-4" />
-                        </button>
-                        <button
-                          disabled={busyIds.includes(decision.id)}
-                          onClick={() => deleteOne(decision.id)}
-                          className="text-red-600 hover:text-red-900 disabled:opacity-50">
-                          <XMarkIcon className="h-4 w-4" />
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
-                );
-              })}
+                      <span className="text-xs text-gray-500">
+                        {decision.isoCode || "-"}
+                      </span>
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {decision.timestamp
+                      ? format(new Date(decision.timestamp), "MMM dd, HH:mm")
+                      : "-"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <div className="flex space-x-2">
+                      <button className="text-blue-600 hover:text-blue-900">
+                        <EyeIcon className="h-4 w-4" />
+                      </button>
+                      {canEdit && (
+                        <>
+                          <button
+                            title="Edit type or duration"
+                            disabled={busyIds.includes(decision.id)}
+                            onClick={() => setEditing(decision)}
+                            className="text-gray-600 hover:text-gray-900 disabled:opacity-50">
+                            <PencilSquareIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            disabled={busyIds.includes(decision.id)}
+                            onClick={() => deleteOne(decision.id)}
+                            className="text-red-600 hover:text-red-900 disabled:opacity-50">
+                            <XMarkIcon className="h-4 w-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
             </tbody>
           </table>
         </div>
         {/* footer counter */}
         <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
           <p className="text-sm text-gray-600">
-            {Math.min(visibleCount, filteredDecisions.length)} decisions
-            displayed
+            {decisions.length} of {total} decisions displayed
           </p>
-          {canLoadMore && (
+          {nextCursor !== null && (
             <button
-              onClick={() => setVisibleCount((c) => c + 10)}
-              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500">
-              Load more
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50">
+              {loadingMore ? "Loading..." : "Load more"}
             </button>
           )}
         </div>
       </div>
 
-      {/* Pagination component below can remain or be removed; we replaced with Load more */}
+      {showAddModal && (
+        <AddDecisionModal
+          onClose={() => setShowAddModal(false)}
+          onCreated={handleCreated}
+        />
+      )}
+      {showImportModal && (
+        <ImportBlocklistModal
+          onClose={() => setShowImportModal(false)}
+          onImported={reload}
+        />
+      )}
+      {editing && (
+        <EditDecisionModal
+          decision={editing}
+          onClose={() => setEditing(null)}
+          onUpdated={handleUpdated}
+        />
+      )}
     </div>
   );
 }
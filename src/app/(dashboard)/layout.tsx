@@ -1,4 +1,5 @@
 import { Navigation } from "@/components/Navigation";
+import { SessionRefreshNotice } from "@/components/SessionRefreshNotice";
 
 export default function DashboardLayout({
   children,
@@ -9,6 +10,7 @@ export default function DashboardLayout({
     <div className="min-h-screen">
       <Navigation />
       <main className="md:ml-64 pt-16 md:pt-0">
+        <SessionRefreshNotice />
         <div className="min-h-screen">{children}</div>
       </main>
     </div>
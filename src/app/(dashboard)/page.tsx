@@ -1,4 +1,3 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 "use client";
 
 import {
@@ -29,11 +28,18 @@ import {
 import { useEffect, useMemo, useState } from "react";
 import { Chart } from "react-google-charts";
 import Link from "next/link";
-
-type Decision = {
-  type: string;
-  metadata?: { isoCode?: string } | null;
-};
+import { SchemaIssuesNotice } from "@/components/SchemaIssuesNotice";
+import { authFetch } from "@/lib/fetch";
+import {
+  alertTime,
+  type AlertsResponse,
+  type CountryCount,
+  type DecisionsResponse,
+  type DecisionTotals,
+  type DecisionTypeCount,
+  type SchemaIssue,
+  type StatisticsResponse,
+} from "@/lib/models";
 
 const pieColors = [
   "#3b82f6",
@@ -45,22 +51,20 @@ const pieColors = [
   "#6366f1",
   "#14b8a6",
 ];
+// Only the totals are needed here, so request the smallest page
 function useDecisionStats() {
-  const [decisions, setDecisions] = useState<Decision[]>([]);
+  const [totals, setTotals] = useState<DecisionTotals | null>(null);
   const [loading, setLoading] = useState(true);
   useEffect(() => {
-    fetch("/api/decisions")
-      .then((r) => r.json())
+    authFetch("/api/decisions?limit=1")
+      .then((r) => r.json() as Promise<DecisionsResponse>)
       .then((d) => {
-        const arr = Array.isArray(d.decisions)
-          ? (d.decisions as Decision[])
-          : [];
-        setDecisions(arr);
+        setTotals(d.totals ?? null);
         setLoading(false);
       })
       .catch(() => setLoading(false));
   }, []);
-  return { decisions, loading };
+  return { totals, loading };
 }
 
 // Dashboard overview cards will be populated from /api/statistics
@@ -69,15 +73,24 @@ type StatCard = {
   value: string;
   change?: string;
   changeType?: "increase" | "decrease";
-  icon: any;
+  icon: typeof ChartBarIcon;
+};
+
+// Row of the "Recent Alerts" list, fed either by the statistics summary or
+// by /api/alerts
+type RecentAlertRow = {
+  id: number;
+  scenario: string;
+  ip: string | null;
+  at: string | null;
 };
 
 // Alerts are loaded from /api/alerts?limit=10 with "Load more"
 
 export default function Dashboard() {
-  const { decisions, loading } = useDecisionStats();
+  const { totals: decisionTotals, loading } = useDecisionStats();
   const [cards, setCards] = useState<StatCard[]>([]);
-  const [alerts, setAlerts] = useState<any[]>([]);
+  const [alerts, setAlerts] = useState<RecentAlertRow[]>([]);
   const [alertLimit, setAlertLimit] = useState(10);
   const [loadingAlerts, setLoadingAlerts] = useState(false);
   const [loadingStats, setLoadingStats] = useState(false);
@@ -85,19 +98,22 @@ export default function Dashboard() {
   const now = useMemo(() => new Date(), []);
   const [statsError, setStatsError] = useState<string | null>(null);
   const [alertsError, setAlertsError] = useState<string | null>(null);
+  const [schemaIssues, setSchemaIssues] = useState<SchemaIssue[]>([]);
 
   // New: Store statistics data for charts
-  const [countryGraphData, setCountryGraphData] = useState<any[]>([]);
-  const [decisionsByTypeData, setDecisionsByTypeData] = useState<any[]>([]);
+  const [countryGraphData, setCountryGraphData] = useState<CountryCount[]>([]);
+  const [decisionsByTypeData, setDecisionsByTypeData] = useState<
+    DecisionTypeCount[]
+  >([]);
 
   // Load statistics for overview cards
   useEffect(() => {
     setLoadingStats(true);
-    fetch("/api/statistics")
-      .then((r) => r.json())
+    authFetch("/api/statistics")
+      .then((r) => r.json() as Promise<StatisticsResponse>)
       .then((s) => {
         setStatsError(null);
-        // Map to expected shape based on new API structure
+        setSchemaIssues(s?.schemaIssues || []);
         const totalAlerts = s?.totalAlerts ?? 0;
         const activeDecisions = s?.activeDecisions ?? 0;
         const blockedIps = s?.blockedIps ?? 0;
@@ -145,13 +161,13 @@ export default function Dashboard() {
 
         // Handle topRecentAlerts
         if (Array.isArray(s?.topRecentAlerts)) {
-          const normalized = s.topRecentAlerts.map((a: any, idx: number) => ({
+          const rows = s.topRecentAlerts.map((a, idx) => ({
             id: idx,
-            scenario: a?.name,
-            decisions: [{ value: a?.ip }],
-            stop_at: a?.timestamp,
+            scenario: a.name,
+            ip: a.ip,
+            at: a.timestamp,
           }));
-          setAlerts(normalized);
+          setAlerts(rows);
           setAlertsFromStats(true);
         }
         setLoadingStats(false);
@@ -170,13 +186,20 @@ export default function Dashboard() {
     (async () => {
       if (!cancelled) setLoadingAlerts(true);
       try {
-        const r = await fetch(`/api/alerts?limit=${alertLimit}`, {
+        const r = await authFetch(`/api/alerts?limit=${alertLimit}`, {
           signal: controller.signal,
         });
-        const a = await r.json();
+        const a = (await r.json()) as AlertsResponse;
         const list = Array.isArray(a?.alerts) ? a.alerts : [];
         if (!cancelled) {
-          setAlerts(list);
+          setAlerts(
+            list.map((alert) => ({
+              id: alert.id,
+              scenario: alert.scenario,
+              ip: alert.source.ip,
+              at: alertTime(alert),
+            }))
+          );
           setAlertsError(null);
         }
       } catch {
@@ -194,88 +217,50 @@ export default function Dashboard() {
   const typeCounts = useMemo(() => {
     if (decisionsByTypeData.length > 0) {
       // Use data from statistics API
-      return decisionsByTypeData.map((item: any) => ({
+      return decisionsByTypeData.map((item) => ({
         type: item.type,
         value: item.count,
       }));
     }
-    // Fallback to calculating from decisions
-    return Array.from(
-      decisions.reduce((m, d) => {
-        m.set(d.type, (m.get(d.type) || 0) + 1);
-        return m;
-      }, new Map()),
+    // Fallback to the decision totals
+    return Object.entries(decisionTotals?.byType ?? {}).map(
       ([type, value]) => ({ type, value })
     );
-  }, [decisionsByTypeData, decisions]);
+  }, [decisionsByTypeData, decisionTotals]);
 
   // Top country counts for Bar - use stats data if available, otherwise fallback to decisions
   const countryCounts = useMemo(() => {
     if (countryGraphData.length > 0) {
       // Use data from statistics API
-      // Handle both formats: { country: "US", count: 86 } or { country: { value: "US" }, count: 86 }
       return countryGraphData
-        .map((item: any) => {
-          const iso =
-            typeof item?.country === "string"
-              ? item.country
-              : item?.country?.value || "?";
-          const count = item?.count || 0;
-          return { country: iso, value: count };
-        })
-        .filter((item) => item.country !== "?")
+        .map((item) => ({ country: item.country, value: item.count }))
         .sort((a, b) => b.value - a.value)
         .slice(0, 6);
     }
-    // Fallback to calculating from decisions
-    return Array.from(
-      decisions.reduce((m, d) => {
-        const iso = d?.metadata?.isoCode || "?";
-        m.set(iso, (m.get(iso) || 0) + 1);
-        return m;
-      }, new Map()),
-      ([iso, value]) => ({ country: iso, value })
-    )
+    // Fallback to the decision totals
+    return Object.entries(decisionTotals?.byCountry ?? {})
+      .map(([iso, value]) => ({ country: iso, value }))
       .sort((a, b) => b.value - a.value)
       .slice(0, 6);
-  }, [countryGraphData, decisions]);
+  }, [countryGraphData, decisionTotals]);
 
   // World map data - use stats data if available, otherwise fallback to decisions
   const worldMapData = useMemo(() => {
     if (countryGraphData.length > 0) {
       // Use data from statistics API
-      // Handle both formats: { country: "US", count: 86 } or { country: { value: "US" }, count: 86 }
-      const chartData = countryGraphData
-        .map((item: any) => {
-          const iso =
-            typeof item?.country === "string"
-              ? item.country
-              : item?.country?.value;
-          const count = item?.count || 0;
-          if (iso && iso !== "?") {
-            return [iso, count];
-          }
-          return null;
-        })
-        .filter((item): item is [string, number] => item !== null);
+      const chartData = countryGraphData.map((item) => [
+        item.country,
+        item.count,
+      ]);
 
       return [["Country", "Threats"], ...chartData];
     }
-    // Fallback to calculating from decisions
+    // Fallback to the decision totals
     return [
       ["Country", "Threats"],
-      ...Array.from(
-        decisions.reduce((m, d) => {
-          const iso = d?.metadata?.isoCode;
-          if (iso && iso !== "?") {
-            m.set(iso, (m.get(iso) || 0) + 1);
-          }
-          return m;
-        }, new Map()),
-        ([iso, value]) => [iso, value]
-      ),
+      ...Object.entries(decisionTotals?.byCountry ?? {}),
     ];
-  }, [countryGraphData, decisions]);
+  }, [countryGraphData, decisionTotals]);
 
   return (
     <div className="p-4 md:p-8 bg-gray-50 min-h-screen">
@@ -290,6 +275,8 @@ export default function Dashboard() {
         </div>
       )}
 
+      <SchemaIssuesNotice issues={schemaIssues} />
+
       {/* Header */}
       <div className="mb-8">
         <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-2">
@@ -471,34 +458,24 @@ export default function Dashboard() {
           <div className="px-6 py-4">
             <div className="flow-root">
               <ul className="divide-y divide-gray-100">
-                {alerts.slice(0, 8).map((alert: any) => (
+                {alerts.slice(0, 8).map((alert) => (
                   <li
                     key={alert.id}
                     className="py-4 hover:bg-gray-50 px-2 rounded-lg transition-colors">
                     <div className="flex items-center space-x-4">
                       <div className="shrink-0">
-                        <div
-                          className={`h-3 w-3 rounded-full ${
-                            (alert?.severity || "High") === "Critical"
-                              ? "bg-red-500 animate-pulse"
-                              : (alert?.severity || "High") === "High"
-                              ? "bg-orange-500"
-                              : "bg-yellow-500"
-                          }`}
-                        />
+                        <div className="h-3 w-3 rounded-full bg-orange-500" />
                       </div>
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-semibold text-gray-900 truncate">
-                          {alert?.scenario || "Alert"}
+                          {alert.scenario || "Alert"}
                         </p>
                         <p className="text-sm text-gray-600 truncate">
-                          IP: {alert?.decisions?.[0]?.value || "-"}
+                          IP: {alert.ip || "-"}
                         </p>
                       </div>
                       <div className="shrink-0 text-sm text-gray-500">
-                        {new Date(
-                          alert?.stop_at || alert?.start_at || now
-                        ).toLocaleString()}
+                        {new Date(alert.at || now).toLocaleString()}
                       </div>
                     </div>
                   </li>
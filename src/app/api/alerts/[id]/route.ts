@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { audited } from "@/lib/audit";
+import { parseAlertDetail } from "@/lib/models";
+import {
+  normalizedResponse,
+  UpstreamError,
+  withUpstream,
+} from "@/lib/upstream";
+
+// GET /api/alerts/[id] - One alert with its events and decisions, plus the
+// raw upstream payload
+export const GET = withUpstream<{ id: string }>(async (api, _req, { id }) => {
+  if (!/^\d+$/.test(id)) {
+    throw new UpstreamError("bad_request", "id must be an alert id");
+  }
+  const raw = await api.alerts.get(id);
+  const { alert, issues } = parseAlertDetail(raw);
+  if (!alert) {
+    throw new UpstreamError(
+      "invalid_response",
+      `Upstream returned no readable alert for id ${id}`
+    );
+  }
+  return normalizedResponse({ alert, raw }, issues, api.requestId);
+});
+
+export const DELETE = withUpstream<{ id: string }>(async (api, req, { id }) => {
+  if (!/^\d+$/.test(id)) {
+    throw new UpstreamError("bad_request", "id must be an alert id");
+  }
+  return audited(
+    { req, api },
+    { action: "alert.delete", target: id },
+    async () => {
+      await api.alerts.delete(id);
+      return NextResponse.json({ success: true });
+    }
+  );
+});
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { audited } from "@/lib/audit";
+import { alertFiltersFromQuery, type AlertFlushResponse } from "@/lib/models";
+import { UpstreamError, withUpstream } from "@/lib/upstream";
+
+// POST /api/alerts/bulk-delete/by-filter - Flush every alert matching the
+// query-string filters of GET /api/alerts, e.g. `until=30d` for alerts older
+// than 30 days or `scenario=...`
+export const POST = withUpstream(async (api, req) => {
+  const parsed = alertFiltersFromQuery(req.nextUrl.searchParams);
+  if (parsed.error !== undefined) {
+    throw new UpstreamError("bad_request", parsed.error);
+  }
+  if (parsed.filters.q !== undefined) {
+    throw new UpstreamError(
+      "bad_request",
+      "Text search can't be used to delete alerts; use the other filters"
+    );
+  }
+  if (Object.keys(parsed.filters).length === 0) {
+    throw new UpstreamError(
+      "bad_request",
+      "At least one filter is required to delete alerts by filter"
+    );
+  }
+
+  return audited(
+    { req, api },
+    {
+      action: "alert.purge",
+      target: req.nextUrl.searchParams.toString(),
+      before: parsed.filters,
+    },
+    async () => {
+      const result = await api.alerts.deleteMatching(parsed.filters);
+      // LAPI answers with { nbDeleted: "12" }
+      const count = Number(
+        (result as { nbDeleted?: unknown } | null)?.nbDeleted
+      );
+      const body: AlertFlushResponse = {
+        deleted: Number.isFinite(count) ? count : null,
+      };
+      return NextResponse.json(body);
+    }
+  );
+});
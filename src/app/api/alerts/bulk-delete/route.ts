@@ -0,0 +1,25 @@
+import { audited } from "@/lib/audit";
+import { bulkDeleteIds } from "@/lib/models";
+import {
+  bulkDeleteResponse,
+  UpstreamError,
+  withUpstream,
+} from "@/lib/upstream";
+
+// POST /api/alerts/bulk-delete - Delete the selected alerts, reporting an
+// outcome per id
+export const POST = withUpstream(async (api, req) => {
+  const parsed = bulkDeleteIds(await req.json().catch(() => ({})));
+  if (parsed.error !== undefined) {
+    throw new UpstreamError("bad_request", parsed.error);
+  }
+  return audited(
+    { req, api },
+    {
+      action: "alert.bulk_delete",
+      target: parsed.ids.join(","),
+      before: { ids: parsed.ids },
+    },
+    async () => bulkDeleteResponse(await api.alerts.deleteMany(parsed.ids))
+  );
+});
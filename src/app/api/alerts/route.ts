@@ -1,27 +1,43 @@
-import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import {
+  alertFiltersFromQuery,
+  matchesAlertSearch,
+  parseAlerts,
+  type AlertsResponse,
+} from "@/lib/models";
+import {
+  normalizedResponse,
+  UpstreamError,
+  withUpstream,
+} from "@/lib/upstream";
 
-export async function GET(req: Request) {
-  const token = (await cookies()).get("auth_token")?.value;
-  if (!token)
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  const base = process.env.API_BASE || process.env.NEXT_PUBLIC_API_BASE;
-  if (!base)
-    return NextResponse.json(
-      { error: "API_BASE is not configured" },
-      { status: 500 }
-    );
-  const { searchParams } = new URL(req.url);
-  const limit = searchParams.get("limit") || "10";
-  const upstreamUrl = `${base}/api/alerts?limit=${encodeURIComponent(limit)}`;
-  const res = await fetch(upstreamUrl, {
-    headers: { Authorization: `Bearer ${token}` },
-    cache: "no-store",
-  });
-  if (!res.ok)
-    return NextResponse.json(
-      { error: await res.text() },
-      { status: res.status }
-    );
-  return NextResponse.json(await res.json());
-}
+// A text search reads this many of the newest alerts and filters them here
+const SEARCH_WINDOW = 500;
+
+// GET /api/alerts - List alerts. Address, range, scenario, origin, time and
+// decision filters are applied upstream over the whole history. Upstream
+// can't search text, so `q` only covers the newest SEARCH_WINDOW alerts
+// matching the other filters; the response says how many were searched.
+export const GET = withUpstream(async (api, req) => {
+  const { searchParams } = req.nextUrl;
+  const parsed = alertFiltersFromQuery(searchParams);
+  if (parsed.error !== undefined) {
+    throw new UpstreamError("bad_request", parsed.error);
+  }
+  const limit = Number(searchParams.get("limit")) || 10;
+  const { q, ...filters } = parsed.filters;
+  const { alerts, issues } = parseAlerts(
+    await api.alerts.list({
+      ...filters,
+      limit: q ? Math.max(limit, SEARCH_WINDOW) : limit,
+    })
+  );
+  if (!q) return normalizedResponse({ alerts }, issues, api.requestId);
+
+  const body: AlertsResponse = {
+    alerts: alerts.filter((a) => matchesAlertSearch(a, q)).slice(0, limit),
+    searched: alerts.length,
+    // A full window means upstream has older alerts that weren't searched
+    searchTruncated: alerts.length >= Math.max(limit, SEARCH_WINDOW),
+  };
+  return normalizedResponse(body, issues, api.requestId);
+});
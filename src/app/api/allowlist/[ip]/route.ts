@@ -1,41 +1,62 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import {
+  removeAllowlistEntry,
+  updateAllowlistEntry,
+  withAllowlistMeta,
+} from "@/lib/allowlist-store";
+import { audited } from "@/lib/audit";
+import {
+  parseAllowlist,
+  validateAllowlistEntryUpdate,
+  type UpdateAllowlistResponse,
+} from "@/lib/models";
+import { UpstreamError, withUpstream } from "@/lib/upstream";
 
-type RouteContext = {
-  params: Promise<{ ip: string }>;
-};
+// CIDR entries arrive with an encoded slash, e.g. 10.0.0.0%2F8
+const decodeIp = (ip: string) => ip.replace(/%2F/gi, "/");
 
-// DELETE /api/allowlist/[ip] - Remove IP from allowlist
-export async function DELETE(req: Request, context: RouteContext) {
-  const token = (await cookies()).get("auth_token")?.value;
-  if (!token) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+// PUT /api/allowlist/[ip] - Edit an entry's reason, tags or expiry without
+// losing its creation time. Fields left out of the body are kept.
+export const PUT = withUpstream<{ ip: string }>(async (api, req, { ip }) => {
+  const body = await req.json().catch(() => ({}));
+  const validated = validateAllowlistEntryUpdate(body || {});
+  if (validated.error !== undefined) {
+    throw new UpstreamError("bad_request", validated.error);
   }
 
-  const base = process.env.API_BASE || process.env.NEXT_PUBLIC_API_BASE;
-  if (!base) {
-    return NextResponse.json(
-      { error: "API_BASE is not configured" },
-      { status: 500 }
-    );
+  const { allowlist } = parseAllowlist(await api.allowlist.list());
+  const entries = await withAllowlistMeta(allowlist);
+  const entry = entries.find((e) => e.ip === decodeIp(ip));
+  if (!entry) {
+    throw new UpstreamError("not_found", `${decodeIp(ip)} is not allowlisted`);
   }
 
-  const { ip } = await context.params;
+  return audited(
+    { req, api },
+    { action: "allowlist.update", target: entry.ip, before: entry },
+    async () => {
+      const response: UpdateAllowlistResponse = {
+        entry: await updateAllowlistEntry(api, entry, validated.update),
+      };
+      return NextResponse.json(response);
+    }
+  );
+});
 
-  const res = await fetch(`${base}/api/allowlist/${encodeURIComponent(ip)}`, {
-    method: "DELETE",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-    cache: "no-store",
-  });
-
-  if (!res.ok) {
-    const error = await res.text();
-    return NextResponse.json({ error }, { status: res.status });
-  }
-
-  const data = await res.json();
-  return NextResponse.json(data);
-}
+// DELETE /api/allowlist/[ip] - Remove an address or range from the allowlist
+export const DELETE = withUpstream<{ ip: string }>(async (api, req, { ip }) => {
+  // Recorded as the before-state; a failed lookup doesn't block the removal
+  const before = await api.allowlist
+    .list()
+    .then((raw) => withAllowlistMeta(parseAllowlist(raw).allowlist))
+    .then((entries) => entries.find((e) => e.ip === decodeIp(ip)))
+    .catch(() => undefined);
+  return audited(
+    { req, api },
+    { action: "allowlist.remove", target: decodeIp(ip), before },
+    async () => {
+      const data = await removeAllowlistEntry(api, decodeIp(ip));
+      return NextResponse.json(data ?? { success: true });
+    }
+  );
+});
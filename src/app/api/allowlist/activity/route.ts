@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { withAllowlistMeta } from "@/lib/allowlist-store";
+import {
+  allowlistActivity,
+  findStaleAllowlistEntries,
+  parseAlerts,
+  parseAllowlist,
+  parseDecisions,
+  type AllowlistActivityResponse,
+} from "@/lib/models";
+import { UpstreamError, withUpstream } from "@/lib/upstream";
+
+// Period without activity after which an entry is reported as stale
+const DEFAULT_STALE_DAYS = Number(process.env.ALLOWLIST_STALE_DAYS) || 90;
+
+// Alerts scanned for hits; the most recent ones within the period
+const ACTIVITY_ALERT_LIMIT =
+  Number(process.env.ALLOWLIST_ACTIVITY_ALERT_LIMIT) || 5000;
+
+// GET /api/allowlist/activity?days=90 - When an alert or decision last
+// involved each entry, and which entries had none within `days`
+export const GET = withUpstream(async (api, req) => {
+  const daysParam = req.nextUrl.searchParams.get("days");
+  const days = daysParam === null ? DEFAULT_STALE_DAYS : Number(daysParam);
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    throw new UpstreamError(
+      "bad_request",
+      "days must be a whole number between 1 and 365"
+    );
+  }
+
+  const [allowlist, alerts, decisions] = await Promise.all([
+    api.allowlist.list(),
+    api.alerts.list({ since: `${days * 24}h`, limit: ACTIVITY_ALERT_LIMIT }),
+    api.decisions.list(),
+  ]);
+  const entries = await withAllowlistMeta(parseAllowlist(allowlist).allowlist);
+  const parsedAlerts = parseAlerts(alerts).alerts;
+  const activity = allowlistActivity(
+    entries,
+    parsedAlerts,
+    parseDecisions(decisions).decisions
+  );
+
+  const body: AllowlistActivityResponse = {
+    activity,
+    stale: findStaleAllowlistEntries(entries, activity, days).map((e) => e.ip),
+    staleAfterDays: days,
+    truncated: parsedAlerts.length >= ACTIVITY_ALERT_LIMIT,
+  };
+  return NextResponse.json(body);
+});
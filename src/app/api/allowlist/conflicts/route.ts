@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import {
+  decisionsByAllowlistEntry,
+  parseAllowlist,
+  parseDecisions,
+  type AllowlistConflictsResponse,
+} from "@/lib/models";
+import { withUpstream } from "@/lib/upstream";
+
+// GET /api/allowlist/conflicts - Active decisions that overlap allowlist
+// entries, so they can be reviewed and removed from the allowlist page
+export const GET = withUpstream(async (api) => {
+  const [allowlist, decisions] = await Promise.all([
+    api.allowlist.list(),
+    api.decisions.list(),
+  ]);
+  const body: AllowlistConflictsResponse = {
+    conflicts: decisionsByAllowlistEntry(
+      parseAllowlist(allowlist).allowlist,
+      parseDecisions(decisions).decisions
+    ),
+  };
+  return NextResponse.json(body);
+});
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { format } from "date-fns";
+import { listAllowlistGroups, withAllowlistMeta } from "@/lib/allowlist-store";
+import { toCsv } from "@/lib/csv";
+import { parseAllowlist } from "@/lib/models";
+import { UpstreamError, withUpstream } from "@/lib/upstream";
+
+// GET /api/allowlist/export?format=csv|json[&group=id] - Download the
+// allowlist, or a single named list
+export const GET = withUpstream(async (api, req) => {
+  const type = req.nextUrl.searchParams.get("format") || "csv";
+  if (type !== "csv" && type !== "json") {
+    throw new UpstreamError("bad_request", "format must be csv or json");
+  }
+  const groupId = req.nextUrl.searchParams.get("group");
+  const groups = await listAllowlistGroups();
+  const group = groupId ? groups.find((g) => g.id === groupId) : undefined;
+  if (groupId && !group) {
+    throw new UpstreamError("not_found", "Allowlist not found");
+  }
+
+  const { allowlist } = parseAllowlist(await api.allowlist.list());
+  const entries = (await withAllowlistMeta(allowlist)).filter(
+    (e) => !group || e.group === group.id
+  );
+  const slug = group?.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  const name = ["allowlist", slug, format(new Date(), "yyyy-MM-dd")]
+    .filter(Boolean)
+    .join("-");
+  const filename = `${name}.${type}`;
+  const headers = {
+    "Content-Disposition": `attachment; filename="${filename}"`,
+    "Cache-Control": "no-store",
+  };
+
+  if (type === "json") {
+    return NextResponse.json(entries, { headers });
+  }
+  const csv = toCsv(
+    ["ip", "reason", "created_at", "updated_at", "expires_at", "list", "tags"],
+    entries.map((e) => [
+      e.ip,
+      e.reason,
+      e.createdAt,
+      e.updatedAt,
+      e.expiresAt,
+      groups.find((g) => g.id === e.group)?.name ?? null,
+      e.tags.join(" "),
+    ])
+  );
+  return new NextResponse(csv, {
+    headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+  });
+});
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { setAllowlistGroup, withAllowlistMeta } from "@/lib/allowlist-store";
+import { audited } from "@/lib/audit";
+import {
+  parseAllowlist,
+  type MoveAllowlistEntriesResponse,
+} from "@/lib/models";
+import { UpstreamError, withUpstream } from "@/lib/upstream";
+
+const MAX_IPS = 1000;
+
+// POST /api/allowlist/groups/[id]/entries - Move existing entries into this
+// list
+export const POST = withUpstream<{ id: string }>(async (api, req, { id }) => {
+  const body = await req.json().catch(() => ({}));
+  const input: unknown[] = body?.ips;
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new UpstreamError("bad_request", "ips array required");
+  }
+  if (input.length > MAX_IPS) {
+    throw new UpstreamError(
+      "bad_request",
+      `At most ${MAX_IPS} entries can be moved at once`
+    );
+  }
+
+  // Matched as stored upstream, so entries saved before canonicalization
+  // can still be moved
+  const ips = [...new Set(input.map((v) => String(v).trim()))];
+  const { allowlist } = parseAllowlist(await api.allowlist.list());
+  const known = new Set(allowlist.map((e) => e.ip));
+  const missing = ips.filter((ip) => !known.has(ip));
+  if (missing.length > 0) {
+    throw new UpstreamError(
+      "not_found",
+      `Not on the allowlist: ${missing.join(", ")}`
+    );
+  }
+
+  const entries = await withAllowlistMeta(allowlist);
+  return audited(
+    { req, api },
+    {
+      action: "allowlist.move",
+      target: ips.join(","),
+      before: entries
+        .filter((e) => ips.includes(e.ip))
+        .map((e) => ({ ip: e.ip, group: e.group })),
+    },
+    async () => {
+      await setAllowlistGroup(ips, id);
+      const response: MoveAllowlistEntriesResponse = { group: id, moved: ips };
+      return NextResponse.json(response);
+    }
+  );
+});
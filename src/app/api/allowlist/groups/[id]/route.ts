@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import {
+  deleteAllowlistGroup,
+  listAllowlistGroups,
+  updateAllowlistGroup,
+} from "@/lib/allowlist-store";
+import { audited } from "@/lib/audit";
+import { validateAllowlistGroup } from "@/lib/models";
+import { UpstreamError, withUpstream } from "@/lib/upstream";
+
+// PATCH /api/allowlist/groups/[id] - Rename a list or change its
+// description and owner
+export const PATCH = withUpstream<{ id: string }>(async (api, req, { id }) => {
+  const body = await req.json().catch(() => ({}));
+  const validated = validateAllowlistGroup(body || {});
+  if (validated.error !== undefined) {
+    throw new UpstreamError("bad_request", validated.error);
+  }
+  const groups = await listAllowlistGroups();
+  return audited(
+    { req, api },
+    {
+      action: "allowlist_group.update",
+      target: id,
+      before: groups.find((g) => g.id === id),
+    },
+    async () => {
+      const group = await updateAllowlistGroup(id, validated.group);
+      return NextResponse.json({ group });
+    }
+  );
+});
+
+// DELETE /api/allowlist/groups/[id] - Delete a list; its entries move to the
+// default list and stay allowlisted
+export const DELETE = withUpstream<{ id: string }>(async (api, req, { id }) => {
+  const groups = await listAllowlistGroups();
+  return audited(
+    { req, api },
+    {
+      action: "allowlist_group.delete",
+      target: id,
+      before: groups.find((g) => g.id === id),
+    },
+    async () => {
+      await deleteAllowlistGroup(id);
+      return NextResponse.json({ success: true });
+    }
+  );
+});
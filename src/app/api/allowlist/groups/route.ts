@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import {
+  createAllowlistGroup,
+  listAllowlistGroups,
+} from "@/lib/allowlist-store";
+import { audited } from "@/lib/audit";
+import {
+  validateAllowlistGroup,
+  type AllowlistGroupsResponse,
+} from "@/lib/models";
+import { UpstreamError, withUpstream } from "@/lib/upstream";
+
+// GET /api/allowlist/groups - Named allowlists, the default list first
+export const GET = withUpstream(async () => {
+  const response: AllowlistGroupsResponse = {
+    groups: await listAllowlistGroups(),
+  };
+  return NextResponse.json(response);
+});
+
+// POST /api/allowlist/groups - Create a named list
+export const POST = withUpstream(async (api, req) => {
+  const body = await req.json().catch(() => ({}));
+  const validated = validateAllowlistGroup(body || {});
+  if (validated.error !== undefined) {
+    throw new UpstreamError("bad_request", validated.error);
+  }
+  return audited(
+    { req, api },
+    { action: "allowlist_group.create", target: validated.group.name },
+    async () => {
+      const group = await createAllowlistGroup(validated.group);
+      return NextResponse.json({ group }, { status: 201 });
+    }
+  );
+});
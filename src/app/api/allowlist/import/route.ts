@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { addAllowlistEntry, listAllowlistGroups } from "@/lib/allowlist-store";
+import { audited } from "@/lib/audit";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import {
+  DEFAULT_ALLOWLIST_GROUP,
+  validateAllowlistExpiry,
+  validateAllowlistIp,
+  type AllowlistImportResponse,
+  type AllowlistImportResult,
+} from "@/lib/models";
+import {
+  UpstreamError,
+  withUpstream,
+  type UpstreamClient,
+} from "@/lib/upstream";
+
+const MAX_ROWS = 1000;
+const IMPORT_CONCURRENCY = 5;
+
+type ImportRow = { ip?: unknown; reason?: unknown; expiresIn?: unknown };
+
+// POST /api/allowlist/import - Add the rows confirmed in the import preview
+// to the named list `group`, continuing past failures and reporting an
+// outcome per row
+export const POST = withUpstream(async (api, req) => {
+  const body = await req.json().catch(() => ({}));
+  const rows: ImportRow[] = body?.entries;
+  if (!Array.isArray(rows) || rows.length === 0) {
+    throw new UpstreamError("bad_request", "entries array required");
+  }
+  if (rows.length > MAX_ROWS) {
+    throw new UpstreamError(
+      "bad_request",
+      `At most ${MAX_ROWS} entries can be imported at once`
+    );
+  }
+  const group = String(body.group || DEFAULT_ALLOWLIST_GROUP);
+  const groups = await listAllowlistGroups();
+  if (!groups.some((g) => g.id === group)) {
+    throw new UpstreamError("bad_request", "Unknown allowlist");
+  }
+
+  return audited(
+    { req, api },
+    {
+      action: "allowlist.import",
+      target: group,
+      before: { rows: rows.length },
+    },
+    () => importRows(api, rows, group)
+  );
+});
+
+async function importRows(
+  api: UpstreamClient,
+  rows: ImportRow[],
+  group: string
+) {
+  const results = await mapWithConcurrency(
+    rows,
+    IMPORT_CONCURRENCY,
+    async (row): Promise<AllowlistImportResult> => {
+      const ip = String(row?.ip ?? "");
+      const validated = validateAllowlistIp(ip);
+      if (validated.error !== undefined) {
+        return { ip, status: "error", error: validated.error };
+      }
+      const expiry = validateAllowlistExpiry(row.expiresIn);
+      if (expiry.error !== undefined) {
+        return { ip: validated.ip, status: "error", error: expiry.error };
+      }
+      const reason =
+        typeof row.reason === "string" ? row.reason.trim() : undefined;
+      try {
+        await addAllowlistEntry(api, {
+          ip: validated.ip,
+          reason: reason || undefined,
+          expiresAt: expiry.expiresAt,
+          group,
+        });
+        return { ip: validated.ip, status: "added" };
+      } catch (err) {
+        if (err instanceof UpstreamError && err.code === "unauthorized") {
+          throw err;
+        }
+        return {
+          ip: validated.ip,
+          status: "error",
+          error: (err as Error).message,
+        };
+      }
+    }
+  );
+
+  const failed = results.filter((r) => r.status === "error").length;
+  const response: AllowlistImportResponse = {
+    results,
+    added: results.length - failed,
+    failed,
+  };
+  // 207 Multi-Status when some rows failed
+  return NextResponse.json(response, { status: failed > 0 ? 207 : 200 });
+}
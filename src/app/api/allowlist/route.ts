@@ -1,79 +1,101 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import {
+  addAllowlistEntry,
+  listAllowlistGroups,
+  recentAllowlistExpiries,
+  withAllowlistMeta,
+} from "@/lib/allowlist-store";
+import { audited } from "@/lib/audit";
+import {
+  DEFAULT_ALLOWLIST_GROUP,
+  decisionsByAllowlistEntry,
+  parseAllowlist,
+  parseDecisions,
+  validateAllowlistExpiry,
+  validateAllowlistIp,
+  validateAllowlistTags,
+  type AddAllowlistResponse,
+  type AllowlistEntry,
+} from "@/lib/models";
+import {
+  normalizedResponse,
+  UpstreamError,
+  withUpstream,
+} from "@/lib/upstream";
 
-// GET /api/allowlist - Fetch all allowlist entries
-export async function GET() {
-  const token = (await cookies()).get("auth_token")?.value;
-  if (!token) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  const base = process.env.API_BASE || process.env.NEXT_PUBLIC_API_BASE;
-  if (!base) {
-    return NextResponse.json(
-      { error: "API_BASE is not configured" },
-      { status: 500 }
-    );
-  }
-
-  const res = await fetch(`${base}/api/allowlist`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
+// GET /api/allowlist - Fetch all allowlist entries. Expired entries are
+// left out; removing them upstream is the scheduled sweep's job, so reading
+// the list never changes it.
+export const GET = withUpstream(async (api) => {
+  const { allowlist, issues } = parseAllowlist(await api.allowlist.list());
+  const now = Date.now();
+  const entries = (await withAllowlistMeta(allowlist)).filter(
+    (e) => !e.expiresAt || Date.parse(e.expiresAt) > now
+  );
+  return normalizedResponse(
+    {
+      allowlist: entries,
+      groups: await listAllowlistGroups(),
+      expired: await recentAllowlistExpiries(),
     },
-    cache: "no-store",
-  });
+    issues,
+    api.requestId
+  );
+});
 
-  if (!res.ok) {
-    const error = await res.text();
-    return NextResponse.json({ error }, { status: res.status });
+// POST /api/allowlist - Add an address or CIDR range, stored in canonical
+// form, optionally expiring after `expiresIn` (e.g. "24h") and placed in the
+// named list `group` with optional `tags`. With
+// `removeConflicting: true` active decisions overlapping the new entry are
+// deleted in the same request.
+export const POST = withUpstream(async (api, req) => {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new UpstreamError("bad_request", "Body must be a JSON object");
   }
-
-  const data = await res.json();
-  return NextResponse.json(data);
-}
-
-// POST /api/allowlist - Add new allowlist entry
-export async function POST(req: Request) {
-  const token = (await cookies()).get("auth_token")?.value;
-  if (!token) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const validated = validateAllowlistIp(body.ip);
+  if (validated.error !== undefined) {
+    throw new UpstreamError("bad_request", validated.error);
   }
-
-  const base = process.env.API_BASE || process.env.NEXT_PUBLIC_API_BASE;
-  if (!base) {
-    return NextResponse.json(
-      { error: "API_BASE is not configured" },
-      { status: 500 }
-    );
+  const expiry = validateAllowlistExpiry(body.expiresIn);
+  if (expiry.error !== undefined) {
+    throw new UpstreamError("bad_request", expiry.error);
   }
-
-  const body = await req.json();
-  const { ip, reason } = body;
-
-  if (!ip) {
-    return NextResponse.json(
-      { error: "IP address is required" },
-      { status: 400 }
-    );
+  const tags = validateAllowlistTags(body.tags);
+  if (tags.error !== undefined) {
+    throw new UpstreamError("bad_request", tags.error);
   }
-
-  const res = await fetch(`${base}/api/allowlist/${encodeURIComponent(ip)}`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-    body: JSON.stringify({ reason }),
-    cache: "no-store",
-  });
-
-  if (!res.ok) {
-    const error = await res.text();
-    return NextResponse.json({ error }, { status: res.status });
+  const group = String(body.group || DEFAULT_ALLOWLIST_GROUP);
+  const groups = await listAllowlistGroups();
+  if (!groups.some((g) => g.id === group)) {
+    throw new UpstreamError("bad_request", "Unknown allowlist");
   }
 
-  const data = await res.json();
-  return NextResponse.json(data);
-}
+  const entry: AllowlistEntry = {
+    ip: validated.ip,
+    reason: typeof body.reason === "string" ? body.reason : null,
+    createdAt: null,
+    updatedAt: null,
+    expiresAt: expiry.expiresAt,
+    group,
+    tags: tags.tags,
+  };
+  return audited(
+    { req, api },
+    { action: "allowlist.add", target: entry.ip, after: entry },
+    async () => {
+      await addAllowlistEntry(api, { ...entry, reason: body.reason });
+
+      const response: AddAllowlistResponse = { removedDecisions: [] };
+      if (body.removeConflicting) {
+        const { decisions } = parseDecisions(await api.decisions.list());
+        const conflicting = decisionsByAllowlistEntry([entry], decisions);
+        const ids = (conflicting[entry.ip] ?? []).map((d) => d.id);
+        if (ids.length > 0) {
+          response.removedDecisions = await api.decisions.deleteMany(ids);
+        }
+      }
+      return NextResponse.json(response);
+    }
+  );
+});
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { format } from "date-fns";
+import { readAuditLog } from "@/lib/audit";
+import { toCsv } from "@/lib/csv";
+import { auditFiltersFromQuery, matchesAuditFilters } from "@/lib/models";
+import { UpstreamError, withUpstream } from "@/lib/upstream";
+
+// Before and after states are free-form, so they are written as JSON
+const json = (value: unknown) =>
+  value === null || value === undefined ? null : JSON.stringify(value);
+
+// GET /api/audit/export - Download the audit records matching the filters
+// of GET /api/audit as CSV
+export const GET = withUpstream(async (api, req) => {
+  await api.session.verify();
+  const parsed = auditFiltersFromQuery(req.nextUrl.searchParams);
+  if (parsed.error !== undefined) {
+    throw new UpstreamError("bad_request", parsed.error);
+  }
+
+  const records = (await readAuditLog()).filter((r) =>
+    matchesAuditFilters(r, parsed.filters)
+  );
+  const csv = toCsv(
+    [
+      "id",
+      "timestamp",
+      "actor",
+      "client_ip",
+      "action",
+      "target",
+      "ok",
+      "status",
+      "error",
+      "before",
+      "after",
+      "request_id",
+    ],
+    records.map((r) => [
+      r.id,
+      r.timestamp,
+      r.actor,
+      r.clientIp,
+      r.action,
+      r.target,
+      r.result.ok,
+      r.result.status,
+      r.result.error,
+      json(r.before),
+      json(r.after),
+      r.requestId,
+    ])
+  );
+  const filename = `audit-${format(new Date(), "yyyy-MM-dd")}.csv`;
+  return new NextResponse(csv, {
+    headers: {
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+      "Content-Type": "text/csv; charset=utf-8",
+    },
+  });
+});
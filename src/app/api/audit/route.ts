@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { readAuditLog } from "@/lib/audit";
+import {
+  auditFiltersFromQuery,
+  matchesAuditFilters,
+  type AuditResponse,
+} from "@/lib/models";
+import { UpstreamError, withUpstream } from "@/lib/upstream";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// GET /api/audit - One page of audit records matching the filters, newest
+// first. The cursor is the id of the last record of the previous page.
+export const GET = withUpstream(async (api, req) => {
+  await api.session.verify();
+  const { searchParams } = req.nextUrl;
+  const parsed = auditFiltersFromQuery(searchParams);
+  if (parsed.error !== undefined) {
+    throw new UpstreamError("bad_request", parsed.error);
+  }
+
+  const limit = Math.max(
+    1,
+    Math.min(
+      Number(searchParams.get("limit")) || DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE
+    )
+  );
+  const rawCursor = searchParams.get("cursor");
+  const cursor = rawCursor ? Number(rawCursor) : undefined;
+  if (cursor !== undefined && !Number.isInteger(cursor)) {
+    throw new UpstreamError("bad_request", "cursor must be an audit record id");
+  }
+
+  const matching = (await readAuditLog()).filter((r) =>
+    matchesAuditFilters(r, parsed.filters)
+  );
+  const start =
+    cursor === undefined ? 0 : matching.findIndex((r) => r.id < cursor);
+  const records = start === -1 ? [] : matching.slice(start, start + limit);
+  const hasMore = start !== -1 && start + limit < matching.length;
+
+  const response: AuditResponse = {
+    records,
+    total: matching.length,
+    nextCursor: hasMore ? records[records.length - 1].id : null,
+  };
+  return NextResponse.json(response);
+});
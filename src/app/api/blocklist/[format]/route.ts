@@ -0,0 +1,77 @@
+import type { NextRequest } from "next/server";
+import {
+  BLOCKLIST_FORMATS,
+  blocklistEntries,
+  isIpsetName,
+  isValidFeedToken,
+  renderBlocklist,
+  type BlocklistFilters,
+  type BlocklistFormat,
+} from "@/lib/blocklist";
+import { parseDecisions } from "@/lib/models";
+import {
+  errorResponse,
+  getServiceUpstreamClient,
+  UpstreamError,
+} from "@/lib/upstream";
+
+const NAME_RE = /^[\w.:/@-]{1,128}$/;
+
+// GET /api/blocklist/[format]?type=ban&scope=Ip&origin=crowdsec - Active
+// decisions as a plain, nginx, ipset or haproxy blocklist. Called by edge
+// devices without a session, so it authenticates with the feed token
+// (`Authorization: Bearer <token>`) instead of the cookie. The token is never
+// read from the query string, which ends up in access logs.
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ format: string }> }
+) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const bearer = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+    if (!isValidFeedToken(bearer ?? null)) {
+      throw new UpstreamError("unauthorized", "Invalid feed token");
+    }
+
+    const { format } = await context.params;
+    if (!BLOCKLIST_FORMATS.includes(format as BlocklistFormat)) {
+      throw new UpstreamError(
+        "not_found",
+        `Unknown format; use ${BLOCKLIST_FORMATS.join(", ")}`
+      );
+    }
+    const type = searchParams.get("type") || "ban";
+    const origin = searchParams.get("origin") || undefined;
+    const scope = (searchParams.get("scope") || undefined) as
+      BlocklistFilters["scope"] | undefined;
+    const ipsetName = searchParams.get("set") || undefined;
+    if (!NAME_RE.test(type) || (origin && !NAME_RE.test(origin))) {
+      throw new UpstreamError("bad_request", "type and origin must be names");
+    }
+    if (scope && scope !== "Ip" && scope !== "Range") {
+      throw new UpstreamError("bad_request", "scope must be Ip or Range");
+    }
+    if (ipsetName && !isIpsetName(ipsetName)) {
+      throw new UpstreamError(
+        "bad_request",
+        "set must be at most 28 letters, digits, '-' or '_'"
+      );
+    }
+
+    const api = getServiceUpstreamClient(req);
+    const { decisions } = parseDecisions(await api.decisions.list());
+    const entries = blocklistEntries(decisions, { type, origin, scope });
+    const body = renderBlocklist(format as BlocklistFormat, entries, {
+      type,
+      ipsetName,
+    });
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
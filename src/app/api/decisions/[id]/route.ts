@@ -1,28 +1,113 @@
-import { NextResponse, type NextRequest } from "next/server";
-import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { audited } from "@/lib/audit";
+import {
+  durationSeconds,
+  formatDuration,
+  parseCreatedDecision,
+  parseDecisions,
+  validateDecisionUpdate,
+  type Decision,
+  type DecisionScope,
+  type DecisionType,
+  type DecisionUpdate,
+} from "@/lib/models";
+import {
+  UpstreamError,
+  withUpstream,
+  type UpstreamClient,
+} from "@/lib/upstream";
 
-export async function DELETE(
-  _req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
-  const { id } = await context.params;
-  const token = (await cookies()).get("auth_token")?.value;
-  if (!token)
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  const base = process.env.API_BASE || process.env.NEXT_PUBLIC_API_BASE;
-  if (!base)
-    return NextResponse.json(
-      { error: "API_BASE is not configured" },
-      { status: 500 }
+export const DELETE = withUpstream<{ id: string }>(async (api, req, { id }) => {
+  // Recorded as the before-state; a failed lookup doesn't block the delete
+  const before = await api.decisions
+    .list()
+    .then((raw) =>
+      parseDecisions(raw).decisions.find((d) => d.id === Number(id))
+    )
+    .catch(() => undefined);
+  return audited(
+    { req, api },
+    { action: "decision.delete", target: id, before },
+    async () => {
+      await api.decisions.delete(id);
+      return NextResponse.json({ success: true });
+    }
+  );
+});
+
+// PATCH /api/decisions/[id] - Change the type or remaining duration of a
+// decision. Upstream decisions are immutable, so a replacement with the same
+// value, scope, scenario, origin and reason is created before the original is
+// removed; if the original can't be removed the replacement is rolled back.
+export const PATCH = withUpstream<{ id: string }>(async (api, req, { id }) => {
+  const body = await req.json().catch(() => ({}));
+  const validated = validateDecisionUpdate(body || {});
+  if (validated.error !== undefined) {
+    throw new UpstreamError("bad_request", validated.error);
+  }
+
+  const { decisions } = parseDecisions(await api.decisions.list());
+  const current = decisions.find((d) => d.id === Number(id));
+  if (!current) {
+    throw new UpstreamError("not_found", `Decision ${id} was not found`);
+  }
+
+  const { update } = validated;
+  const remaining = durationSeconds(current.duration);
+  if (!update.duration && !remaining) {
+    throw new UpstreamError(
+      "bad_request",
+      "Decision has expired; set a new duration"
     );
-  const res = await fetch(`${base}/decisions/${id}`, {
-    method: "DELETE",
-    headers: { Authorization: `Bearer ${token}` },
+  }
+
+  return audited(
+    { req, api },
+    { action: "decision.update", target: String(current.id), before: current },
+    () => replaceDecision(api, current, update, remaining)
+  );
+});
+
+async function replaceDecision(
+  api: UpstreamClient,
+  current: Decision,
+  update: DecisionUpdate,
+  remaining: number | null
+) {
+  const created = await api.decisions.create({
+    type: update.type ?? (current.type as DecisionType),
+    scope: current.scope as DecisionScope,
+    value: current.value,
+    duration: update.duration ?? formatDuration(remaining as number),
+    reason: current.reason || current.scenario || "manual update",
+    scenario: current.scenario,
+    origin: current.origin,
   });
-  if (!res.ok)
-    return NextResponse.json(
-      { error: await res.text() },
-      { status: res.status }
+
+  const decision = parseCreatedDecision(created);
+
+  try {
+    await api.decisions.delete(current.id);
+  } catch (err) {
+    const cause = (err as Error).message;
+    if (!decision) {
+      throw new UpstreamError(
+        "upstream_error",
+        `Updated decision was created but decision ${current.id} could not be removed: ${cause}`
+      );
+    }
+    // Two active decisions for one value would hide the edit's effect
+    await api.decisions.delete(decision.id).catch(() => {
+      throw new UpstreamError(
+        "upstream_error",
+        `Decision ${current.id} could not be removed (${cause}) and its replacement ${decision.id} could not be rolled back; delete one of them`
+      );
+    });
+    throw new UpstreamError(
+      "upstream_error",
+      `Decision ${current.id} could not be removed, so the update was rolled back: ${cause}`
     );
-  return NextResponse.json({ success: true });
+  }
+
+  return NextResponse.json({ decision, replacedId: current.id });
 }
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { audited } from "@/lib/audit";
+import {
+  decisionFiltersFromQuery,
+  hasDecisionScopeFilter,
+  matchesDecisionFilters,
+  MAX_BULK_IDS,
+  parseDecisions,
+} from "@/lib/models";
+import {
+  bulkDeleteResponse,
+  UpstreamError,
+  withUpstream,
+} from "@/lib/upstream";
+
+// POST /api/decisions/bulk-delete/by-filter - Delete every decision matching
+// the query-string filters of GET /api/decisions. With `{ dryRun: true }`
+// only the number of matching decisions is returned; the real run takes
+// that confirmed number as `{ expected }` and refuses if the match changed.
+// A type, scope, value, range, origin or scenario filter is required, and
+// the free-text `q` is refused: what a search matched is too loose to
+// delete by.
+export const POST = withUpstream(async (api, req) => {
+  const parsed = decisionFiltersFromQuery(req.nextUrl.searchParams);
+  if (parsed.error !== undefined) {
+    throw new UpstreamError("bad_request", parsed.error);
+  }
+  if (parsed.filters.q !== undefined) {
+    throw new UpstreamError(
+      "bad_request",
+      "Text search can't be used to delete by filter"
+    );
+  }
+  if (!hasDecisionScopeFilter(parsed.filters)) {
+    throw new UpstreamError(
+      "bad_request",
+      "A type, scope, value, range, origin or scenario filter is required to delete by filter"
+    );
+  }
+  const body = await req.json().catch(() => ({}));
+
+  const { decisions } = parseDecisions(await api.decisions.list());
+  const ids = decisions
+    .filter((d) => matchesDecisionFilters(d, parsed.filters))
+    .map((d) => d.id);
+
+  if (ids.length > MAX_BULK_IDS) {
+    throw new UpstreamError(
+      "bad_request",
+      `The filters match ${ids.length} decisions; narrow them to at most ${MAX_BULK_IDS} to delete by filter`
+    );
+  }
+  if (body?.dryRun) {
+    return NextResponse.json({ dryRun: true, matched: ids.length });
+  }
+  if (typeof body?.expected !== "number") {
+    throw new UpstreamError(
+      "bad_request",
+      "expected must be the number of matching decisions confirmed"
+    );
+  }
+  if (body.expected !== ids.length) {
+    throw new UpstreamError(
+      "bad_request",
+      `The filters now match ${ids.length} decisions instead of the ${body.expected} confirmed; review them and try again`,
+      { status: 409 }
+    );
+  }
+  return audited(
+    { req, api },
+    {
+      action: "decision.delete_by_filter",
+      target: req.nextUrl.searchParams.toString(),
+      before: { filters: parsed.filters, ids },
+    },
+    async () =>
+      bulkDeleteResponse(await api.decisions.deleteMany(ids), {
+        matched: ids.length,
+      })
+  );
+});
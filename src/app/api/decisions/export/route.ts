@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { format } from "date-fns";
+import { toCsvRow } from "@/lib/csv";
+import {
+  decisionFiltersFromQuery,
+  matchesDecisionFilters,
+  parseDecisions,
+  type Decision,
+} from "@/lib/models";
+import { UpstreamError, withUpstream } from "@/lib/upstream";
+
+// Rows serialized per chunk, so large exports never build one big string
+const CHUNK_ROWS = 500;
+
+const CSV_COLUMNS: [string, (d: Decision) => unknown][] = [
+  ["id", (d) => d.id],
+  ["value", (d) => d.value],
+  ["type", (d) => d.type],
+  ["origin", (d) => d.origin],
+  ["scenario", (d) => d.scenario],
+  ["scope", (d) => d.scope],
+  ["duration", (d) => d.duration],
+  ["until", (d) => d.until],
+  ["simulated", (d) => d.simulated],
+  ["as_number", (d) => d.asnNumber],
+  ["as_name", (d) => d.asnOrg],
+  ["country", (d) => d.isoCode],
+  ["timestamp", (d) => d.timestamp],
+];
+
+function* csvChunks(decisions: Decision[]) {
+  yield toCsvRow(CSV_COLUMNS.map(([name]) => name));
+  for (let i = 0; i < decisions.length; i += CHUNK_ROWS) {
+    yield decisions
+      .slice(i, i + CHUNK_ROWS)
+      .map((d) => toCsvRow(CSV_COLUMNS.map(([, value]) => value(d))))
+      .join("");
+  }
+}
+
+function* jsonChunks(decisions: Decision[]) {
+  yield "[";
+  for (let i = 0; i < decisions.length; i += CHUNK_ROWS) {
+    const rows = decisions
+      .slice(i, i + CHUNK_ROWS)
+      .map((d) => JSON.stringify(d))
+      .join(",\n");
+    yield `${i === 0 ? "\n" : ",\n"}${rows}`;
+  }
+  yield "\n]\n";
+}
+
+function streamOf(chunks: Generator<string>) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = chunks.next();
+      if (next.done) controller.close();
+      else controller.enqueue(encoder.encode(next.value));
+    },
+  });
+}
+
+// GET /api/decisions/export?format=csv|json&... - Download every decision
+// matching the same filters as GET /api/decisions, newest first
+export const GET = withUpstream(async (api, req) => {
+  const { searchParams } = req.nextUrl;
+  const type = searchParams.get("format") || "csv";
+  if (type !== "csv" && type !== "json") {
+    throw new UpstreamError("bad_request", "format must be csv or json");
+  }
+  const parsed = decisionFiltersFromQuery(searchParams);
+  if (parsed.error !== undefined) {
+    throw new UpstreamError("bad_request", parsed.error);
+  }
+
+  const { decisions } = parseDecisions(await api.decisions.list());
+  const matching = decisions
+    .filter((d) => matchesDecisionFilters(d, parsed.filters))
+    .sort((a, b) => b.id - a.id);
+
+  const filename = `decisions-${format(new Date(), "yyyy-MM-dd")}.${type}`;
+  return new NextResponse(
+    streamOf(type === "csv" ? csvChunks(matching) : jsonChunks(matching)),
+    {
+      headers: {
+        "Content-Type":
+          type === "csv"
+            ? "text/csv; charset=utf-8"
+            : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    }
+  );
+});
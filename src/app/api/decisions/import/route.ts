@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { audited } from "@/lib/audit";
+import { chunk, mapWithConcurrency } from "@/lib/concurrency";
+import {
+  classifyBlocklistImport,
+  countBlocklistImport,
+  parseAllowlist,
+  parseDecisions,
+  validateNewDecision,
+  type BlocklistImportResponse,
+  type BlocklistImportRow,
+  type NewDecision,
+} from "@/lib/models";
+import { UpstreamError, withUpstream } from "@/lib/upstream";
+
+// Roughly 100k lines; larger lists belong in a bouncer-side blocklist
+const MAX_TEXT_LENGTH = 2_000_000;
+const MAX_NEW_DECISIONS = 5000;
+// Decisions per upstream create call, and calls in flight at once
+const IMPORT_BATCH_SIZE = 100;
+const IMPORT_CONCURRENCY = 2;
+
+// POST /api/decisions/import - Create decisions from a partner blocklist
+// file. Values overlapping the allowlist, already covered by an active
+// decision, or repeated are skipped. With `dryRun: true` only the
+// classification is returned, for the preview.
+export const POST = withUpstream(async (api, req) => {
+  const body = await req.json().catch(() => ({}));
+  const text = body?.text;
+  if (typeof text !== "string" || !text.trim()) {
+    throw new UpstreamError("bad_request", "text is required");
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new UpstreamError("bad_request", "The file is too large to import");
+  }
+
+  const [allowlist, decisions] = await Promise.all([
+    api.allowlist.list(),
+    api.decisions.list(),
+  ]);
+  const rows = classifyBlocklistImport(text, {
+    allowlist: parseAllowlist(allowlist).allowlist,
+    decisions: parseDecisions(decisions).decisions,
+  });
+  const toCreate = rows.filter((r) => r.status === "new");
+  let results = rows;
+
+  if (body.dryRun !== true && toCreate.length > 0) {
+    if (toCreate.length > MAX_NEW_DECISIONS) {
+      throw new UpstreamError(
+        "bad_request",
+        `At most ${MAX_NEW_DECISIONS} decisions can be imported at once`
+      );
+    }
+    // Type, duration and reason are shared, so checking one row checks all
+    const first = validateNewDecision({
+      type: body.type,
+      scope: toCreate[0].scope ?? undefined,
+      value: toCreate[0].value ?? undefined,
+      duration: body.duration,
+      reason: body.reason,
+    });
+    if (first.error !== undefined) {
+      throw new UpstreamError("bad_request", first.error);
+    }
+    const { type, duration, reason } = first.decision;
+
+    const created = await audited(
+      { req, api },
+      {
+        action: "decision.import",
+        target: reason,
+        before: { type, duration, values: toCreate.length },
+        // Per-row results can run into thousands; the counts are enough
+        after: countBlocklistImport,
+      },
+      async () => {
+        const batches = chunk(toCreate, IMPORT_BATCH_SIZE);
+        // A batch is created or rejected as a whole, so every row in it
+        // shares the outcome
+        const outcomes = await mapWithConcurrency(
+          batches,
+          IMPORT_CONCURRENCY,
+          async (batch, index): Promise<BlocklistImportRow[]> => {
+            const batchDecisions = batch.map((row): NewDecision => ({
+              type,
+              duration,
+              reason,
+              scope: row.scope as NewDecision["scope"],
+              value: row.value as string,
+            }));
+            try {
+              await api.decisions.createMany(batchDecisions);
+              return batch.map((row) => ({ ...row, status: "created" }));
+            } catch (err) {
+              if (err instanceof UpstreamError && err.code === "unauthorized") {
+                throw err;
+              }
+              const detail = `Batch ${index + 1} of ${batches.length} failed: ${
+                (err as Error).message
+              }`;
+              return batch.map((row) => ({ ...row, status: "error", detail }));
+            }
+          }
+        );
+        return outcomes.flat();
+      }
+    );
+    const outcome = new Map(toCreate.map((row, i) => [row, created[i]]));
+    results = rows.map((row) => outcome.get(row) ?? row);
+  }
+
+  const counts = countBlocklistImport(results);
+  const response: BlocklistImportResponse = {
+    dryRun: body.dryRun === true,
+    rows: results,
+    counts,
+  };
+  // 207 Multi-Status when some decisions could not be created
+  return NextResponse.json(response, {
+    status: counts.error ? 207 : 200,
+  });
+});
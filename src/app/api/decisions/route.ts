@@ -1,30 +1,93 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { audited } from "@/lib/audit";
+import {
+  allowlistEntryByDecision,
+  decisionFiltersFromQuery,
+  matchesDecisionFilters,
+  paginateDecisions,
+  parseAllowlist,
+  parseCreatedDecision,
+  parseDecisions,
+  summarizeDecisions,
+  validateNewDecision,
+} from "@/lib/models";
+import {
+  normalizedResponse,
+  UpstreamError,
+  withUpstream,
+} from "@/lib/upstream";
 
-export async function GET() {
-  const token = (await cookies()).get("auth_token")?.value;
-  if (!token) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 500;
+
+// GET /api/decisions - One page of decisions matching the filters
+export const GET = withUpstream(async (api, req) => {
+  const { searchParams } = req.nextUrl;
+  const parsed = decisionFiltersFromQuery(searchParams);
+  if (parsed.error !== undefined) {
+    throw new UpstreamError("bad_request", parsed.error);
   }
-  const base = process.env.API_BASE || process.env.NEXT_PUBLIC_API_BASE;
-  if (!base) {
-    return NextResponse.json(
-      { error: "API_BASE is not configured" },
-      { status: 500 }
-    );
+
+  const limit = Math.max(
+    1,
+    Math.min(
+      Number(searchParams.get("limit")) || DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE
+    )
+  );
+  const rawCursor = searchParams.get("cursor");
+  const cursor = rawCursor ? Number(rawCursor) : undefined;
+  if (cursor !== undefined && !Number.isInteger(cursor)) {
+    throw new UpstreamError("bad_request", "cursor must be a decision id");
   }
-  const res = await fetch(`${base}/api/decisions`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
+
+  const { decisions, issues } = parseDecisions(await api.decisions.list());
+  const matching = decisions.filter((d) =>
+    matchesDecisionFilters(d, parsed.filters)
+  );
+  const page = paginateDecisions(matching, { cursor, limit });
+
+  // Flagging allowlisted decisions is best effort; the page still loads if
+  // the allowlist can't be read
+  const allowlist = await api.allowlist
+    .list()
+    .then((raw) => parseAllowlist(raw).allowlist)
+    .catch(() => []);
+
+  return normalizedResponse(
+    {
+      ...page,
+      total: matching.length,
+      totals: summarizeDecisions(decisions),
+      allowlisted: allowlistEntryByDecision(page.decisions, allowlist),
     },
-    cache: "no-store",
-  });
-  if (!res.ok) {
-    const error = await res.text();
-    return NextResponse.json({ error }, { status: res.status });
+    issues,
+    api.requestId
+  );
+});
+
+// POST /api/decisions - Create a decision by hand (ban, captcha, throttle)
+export const POST = withUpstream(async (api, req) => {
+  const body = await req.json().catch(() => ({}));
+  const validated = validateNewDecision(body || {});
+  if (validated.error !== undefined) {
+    throw new UpstreamError("bad_request", validated.error);
   }
-  const data = await res.json();
-  return NextResponse.json(data);
-}
+
+  const { decision: input } = validated;
+  return audited(
+    { req, api },
+    {
+      action: "decision.create",
+      target: `${input.scope}:${input.value}`,
+      after: input,
+    },
+    async () => {
+      const created = await api.decisions.create(input);
+
+      // Return whatever can be normalized so the table can show it right away
+      const decision = parseCreatedDecision(created);
+      return NextResponse.json({ decision }, { status: 201 });
+    }
+  );
+});
@@ -1,12 +1,47 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import { readSessionTokens, setSessionCookies } from "@/lib/auth-cookies";
+import type { LoginErrorCode, LoginErrorResponse } from "@/lib/models";
+
+// Authenticator apps show 6 digits
+const TOTP_CODE_RE = /^\d{6}$/;
+
+function loginError(error: string, code?: LoginErrorCode, status = 401) {
+  const body: LoginErrorResponse = { error, code };
+  return NextResponse.json(body, { status });
+}
+
+/**
+ * Why upstream refused a login. ASP.NET Identity style APIs answer 401 with
+ * a problem detail of "RequiresTwoFactor", "LockedOut" or "Failed"; others
+ * may flag `requiresTwoFactor` in the body. A rejection while a second
+ * factor was sent means that factor was wrong. Other statuses (5xx, 429)
+ * say nothing about the credentials.
+ */
+function loginFailure(
+  status: number,
+  data: unknown,
+  text: string,
+  sentSecondFactor: boolean
+): LoginErrorCode | null {
+  if (status !== 400 && status !== 401) return null;
+  const rec =
+    data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const detail = [rec.detail, rec.error, rec.title, text]
+    .filter((v) => typeof v === "string")
+    .join(" ");
+  if (rec.requiresTwoFactor === true || /RequiresTwoFactor/i.test(detail)) {
+    return "two_factor_required";
+  }
+  if (/LockedOut/i.test(detail)) return "locked_out";
+  return sentSecondFactor ? "invalid_two_factor_code" : null;
+}
 
 export async function POST(req: Request) {
   try {
     const body = await req.json();
-    const { email, password, twoFactorCode, twoFactorRecoveryCode } =
-      body || {};
+    const { email, password } = body || {};
 
     if (!email || !password) {
       return NextResponse.json(
@@ -15,6 +50,21 @@ export async function POST(req: Request) {
       );
     }
 
+    // Codes are often pasted with spaces, e.g. "123 456"
+    const twoFactorCode = body.twoFactorCode
+      ? String(body.twoFactorCode).replace(/\s/g, "")
+      : undefined;
+    const twoFactorRecoveryCode = body.twoFactorRecoveryCode
+      ? String(body.twoFactorRecoveryCode).trim()
+      : undefined;
+    if (twoFactorCode && !TOTP_CODE_RE.test(twoFactorCode)) {
+      return loginError(
+        "Enter the 6-digit code from your authenticator app",
+        "invalid_two_factor_code",
+        400
+      );
+    }
+
     const base = process.env.API_BASE || process.env.NEXT_PUBLIC_API_BASE;
     const loginPath = process.env.API_LOGIN_PATH || "/login";
 
@@ -44,6 +94,42 @@ export async function POST(req: Request) {
     } catch {}
 
     if (!upstream.ok) {
+      switch (
+        loginFailure(
+          upstream.status,
+          data,
+          text,
+          !!(twoFactorCode || twoFactorRecoveryCode)
+        )
+      ) {
+        case "two_factor_required":
+          return loginError(
+            "Enter the code from your authenticator app",
+            "two_factor_required"
+          );
+        case "invalid_two_factor_code":
+          return loginError(
+            twoFactorRecoveryCode
+              ? "That recovery code is wrong or has already been used"
+              : "That code is wrong or has expired. Enter the current code from your authenticator app",
+            "invalid_two_factor_code"
+          );
+        case "locked_out":
+          return loginError(
+            "Too many failed attempts. The account is locked for now, try again later",
+            "locked_out"
+          );
+      }
+      if (upstream.status !== 400 && upstream.status !== 401) {
+        return NextResponse.json(
+          {
+            error:
+              (data && (data as any).error) ||
+              `Sign-in is unavailable (upstream status ${upstream.status})`,
+          },
+          { status: 502 }
+        );
+      }
       return NextResponse.json(
         {
           error: (data && (data as any).error) || text || "Invalid credentials",
@@ -52,18 +138,21 @@ export async function POST(req: Request) {
       );
     }
 
-    const token = (data as any)?.accessToken;
-    if (!token) {
+    const tokens = readSessionTokens(data);
+    if (!tokens) {
       return NextResponse.json(
         { error: "No accessToken returned from API" },
         { status: 502 }
       );
     }
 
-    console.log("[LOGIN] Setting cookie, token length:", token.length);
+    console.log(
+      "[LOGIN] Setting cookies, token length:",
+      tokens.accessToken.length
+    );
     console.log("[LOGIN] NODE_ENV:", process.env.NODE_ENV);
 
-    // Set authentication cookie
+    // Set authentication cookies
     const cookieStore = await cookies();
 
     // Only use secure flag if actually on HTTPS
@@ -72,17 +161,13 @@ export async function POST(req: Request) {
       req.headers.get("x-forwarded-proto") === "https" ||
       req.url.startsWith("https://");
 
-    const cookieOptions = {
-      httpOnly: true,
-      sameSite: "lax" as const,
-      path: "/",
-      secure: isHttps, // Only secure if HTTPS
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-    };
-
-    console.log("[LOGIN] Cookie options:", cookieOptions);
-    cookieStore.set("auth_token", token, cookieOptions);
-    console.log("[LOGIN] Cookie set successfully");
+    setSessionCookies(cookieStore, tokens, isHttps);
+    console.log(
+      "[LOGIN] Cookies set, secure:",
+      isHttps,
+      "refresh token:",
+      !!tokens.refreshToken
+    );
 
     return NextResponse.json({ success: true });
   } catch (err) {
@@ -1,8 +1,9 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import { clearSessionCookies } from "@/lib/auth-cookies";
 
 export async function POST() {
   const cookieStore = await cookies();
-  cookieStore.set("auth_token", "", { path: "/", maxAge: 0 });
+  clearSessionCookies(cookieStore);
   return NextResponse.json({ success: true });
 }
@@ -1,30 +1,75 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import {
+  AUTH_COOKIE,
+  clearSessionCookies,
+  EXPIRES_COOKIE,
+  readSessionTokens,
+  REFRESH_COOKIE,
+  setSessionCookies,
+} from "@/lib/auth-cookies";
+import type {
+  RefreshErrorCode,
+  RefreshErrorResponse,
+  RefreshResponse,
+} from "@/lib/models";
+import { claimsUser, sessionClaims } from "@/lib/session";
 
+function refreshError(error: string, code: RefreshErrorCode, status: number) {
+  const body: RefreshErrorResponse = { error, code };
+  return NextResponse.json(body, { status });
+}
+
+// Expiry of an access token: the lifetime upstream reported, else its `exp`
+async function expiresAtOf(token: string, reported: string | null) {
+  return reported ?? claimsUser(await sessionClaims(token)).expiresAt;
+}
+
+/**
+ * Exchange the session for a fresh access token. Upstreams that issue
+ * refresh tokens get `{ refreshToken }` in the body (ASP.NET Identity
+ * style); others are sent the current access token as a bearer token.
+ *
+ * Failures are reported, not swallowed: 401 `session_expired` when upstream
+ * rejected the session (the cookies are cleared), 502 `refresh_failed` when
+ * it could not be refreshed right now and the current token may still work.
+ */
 export async function POST() {
   try {
     const cookieStore = await cookies();
-    const token = cookieStore.get("auth_token")?.value;
+    const token = cookieStore.get(AUTH_COOKIE)?.value;
+    const refreshToken = cookieStore.get(REFRESH_COOKIE)?.value;
 
-    if (!token) {
-      return NextResponse.json({ error: "No token found" }, { status: 401 });
+    if (!token && !refreshToken) {
+      return refreshError("No token found", "session_expired", 401);
     }
 
     // Check if backend refresh is enabled
     const enableBackendRefresh = process.env.ENABLE_TOKEN_REFRESH === "true";
 
     if (!enableBackendRefresh) {
-      // If backend refresh is not enabled, just return success
+      // Nothing to refresh: the current token stays until it expires
       console.log("[REFRESH] Backend refresh disabled, skipping");
-      return NextResponse.json({ success: true, refreshed: false });
+      const body: RefreshResponse = {
+        refreshed: false,
+        expiresAt: token
+          ? await expiresAtOf(
+              token,
+              cookieStore.get(EXPIRES_COOKIE)?.value ?? null
+            )
+          : null,
+      };
+      return NextResponse.json(body);
     }
 
     const base = process.env.API_BASE || process.env.NEXT_PUBLIC_API_BASE;
     const refreshPath = process.env.API_REFRESH_PATH || "/refresh";
 
     if (!base) {
-      console.log("[REFRESH] No API_BASE configured, skipping refresh");
-      return NextResponse.json({ success: true, refreshed: false });
+      return NextResponse.json(
+        { error: "API_BASE is not configured" },
+        { status: 500 }
+      );
     }
 
     // Call upstream refresh endpoint
@@ -32,41 +77,55 @@ export async function POST() {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
       },
+      body: refreshToken ? JSON.stringify({ refreshToken }) : undefined,
     });
 
+    if (upstream.status === 401 || upstream.status === 403) {
+      console.log("[REFRESH] Session rejected, status:", upstream.status);
+      clearSessionCookies(cookieStore);
+      return refreshError(
+        "Your session has expired. Sign in again to continue",
+        "session_expired",
+        401
+      );
+    }
     if (!upstream.ok) {
       console.log("[REFRESH] Backend refresh failed, status:", upstream.status);
-      // Don't clear token on refresh failure - it might still be valid
-      return NextResponse.json({ success: true, refreshed: false });
+      return refreshError(
+        `Could not refresh the session (upstream status ${upstream.status})`,
+        "refresh_failed",
+        502
+      );
     }
 
-    const data = await upstream.json();
-    const newToken = data?.accessToken;
-
-    if (newToken) {
-      // Update cookie with new token
-      const isHttps =
-        process.env.NODE_ENV === "production" ||
-        process.env.FORCE_HTTPS === "true";
-
-      cookieStore.set("auth_token", newToken, {
-        httpOnly: true,
-        sameSite: "lax",
-        path: "/",
-        secure: isHttps,
-        maxAge: 60 * 60 * 24 * 7, // 7 days
-      });
-
-      console.log("[REFRESH] Token refreshed successfully");
-      return NextResponse.json({ success: true, refreshed: true });
+    const tokens = readSessionTokens(await upstream.json().catch(() => null));
+    if (!tokens) {
+      return refreshError(
+        "No accessToken returned from API",
+        "refresh_failed",
+        502
+      );
     }
 
-    return NextResponse.json({ success: true, refreshed: false });
+    const isHttps =
+      process.env.NODE_ENV === "production" ||
+      process.env.FORCE_HTTPS === "true";
+    setSessionCookies(cookieStore, tokens, isHttps);
+
+    console.log("[REFRESH] Token refreshed successfully");
+    const body: RefreshResponse = {
+      refreshed: true,
+      expiresAt: await expiresAtOf(tokens.accessToken, tokens.expiresAt),
+    };
+    return NextResponse.json(body);
   } catch (err) {
     console.error("[REFRESH] Error:", err);
-    // Don't fail hard on refresh errors
-    return NextResponse.json({ success: true, refreshed: false });
+    return refreshError(
+      "Could not reach the API to refresh the session",
+      "refresh_failed",
+      502
+    );
   }
 }
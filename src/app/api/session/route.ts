@@ -1,13 +1,47 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import {
+  AUTH_COOKIE,
+  clearSessionCookies,
+  EXPIRES_COOKIE,
+} from "@/lib/auth-cookies";
+import type { SessionResponse } from "@/lib/models";
+import { claimsUser, sessionClaims, type TokenClaims } from "@/lib/session";
+
+// The upstream account behind an opaque token, when API_PROFILE_PATH is set
+async function fetchProfile(token: string): Promise<TokenClaims | null> {
+  const base = process.env.API_BASE || process.env.NEXT_PUBLIC_API_BASE;
+  const profilePath = process.env.API_PROFILE_PATH;
+  if (!base || !profilePath) return null;
+  try {
+    const res = await fetch(`${base}${profilePath}`, {
+      headers: { Authorization: `Bearer ${token}` },
+      cache: "no-store",
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    return data && typeof data === "object" ? data : null;
+  } catch (err) {
+    console.error("[SESSION] Profile lookup error:", err);
+    return null;
+  }
+}
 
 export async function GET() {
   const cookieStore = await cookies();
-  const token = cookieStore.get("auth_token")?.value;
+  const token = cookieStore.get(AUTH_COOKIE)?.value;
 
   if (!token) {
     return NextResponse.json({ authenticated: false }, { status: 401 });
   }
+  const claims = await sessionClaims(token);
+  let user = claimsUser(claims);
+  if (!user.name && !user.email) {
+    user = claimsUser(claims, await fetchProfile(token));
+  }
+  // Opaque tokens: the lifetime upstream reported when issuing them
+  user.expiresAt ??= cookieStore.get(EXPIRES_COOKIE)?.value ?? null;
+  const session: SessionResponse = { authenticated: true, user };
 
   // For now, just check if token exists
   // Backend validation can be enabled later via environment variable
@@ -16,7 +50,7 @@ export async function GET() {
 
   if (!validateWithBackend) {
     // Simple mode: just check if token exists
-    return NextResponse.json({ authenticated: true });
+    return NextResponse.json(session);
   }
 
   // Validate token with backend (optional)
@@ -25,7 +59,7 @@ export async function GET() {
 
   if (!base) {
     // If no API base, just check if token exists
-    return NextResponse.json({ authenticated: true });
+    return NextResponse.json(session);
   }
 
   try {
@@ -38,14 +72,14 @@ export async function GET() {
 
     if (!res.ok) {
       // Token is invalid, clear it
-      cookieStore.delete("auth_token");
+      clearSessionCookies(cookieStore);
       return NextResponse.json({ authenticated: false }, { status: 401 });
     }
 
-    return NextResponse.json({ authenticated: true });
+    return NextResponse.json(session);
   } catch (err) {
     console.error("[SESSION] Validation error:", err);
     // On error, assume token is still valid (network issues, etc.)
-    return NextResponse.json({ authenticated: true });
+    return NextResponse.json(session);
   }
 }
@@ -1,24 +1,7 @@
-import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { parseStatistics } from "@/lib/models";
+import { normalizedResponse, withUpstream } from "@/lib/upstream";
 
-export async function GET() {
-  const token = (await cookies()).get("auth_token")?.value;
-  if (!token)
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  const base = process.env.API_BASE || process.env.NEXT_PUBLIC_API_BASE;
-  if (!base)
-    return NextResponse.json(
-      { error: "API_BASE is not configured" },
-      { status: 500 }
-    );
-  const res = await fetch(`${base}/api/statistics`, {
-    headers: { Authorization: `Bearer ${token}` },
-    cache: "no-store",
-  });
-  if (!res.ok)
-    return NextResponse.json(
-      { error: await res.text() },
-      { status: res.status }
-    );
-  return NextResponse.json(await res.json());
-}
+export const GET = withUpstream(async (api) => {
+  const { statistics, issues } = parseStatistics(await api.statistics.get());
+  return normalizedResponse(statistics, issues, api.requestId);
+});
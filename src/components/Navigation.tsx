@@ -4,6 +4,7 @@ import {
   Bars3Icon,
   ChartBarIcon,
   ClipboardDocumentListIcon,
+  ClockIcon,
   Cog6ToothIcon,
   ExclamationTriangleIcon,
   ShieldCheckIcon,
@@ -13,6 +14,7 @@ import {
 import Link from "next/link";
 import { clsx } from "clsx";
 import { useAuth } from "@/contexts/AuthContext";
+import { hasRole, requiredRole, type SessionUser } from "@/lib/models";
 import { usePathname } from "next/navigation";
 import { useState } from "react";
 
@@ -21,13 +23,23 @@ const navigation = [
   { name: "Alerts", href: "/alerts", icon: ExclamationTriangleIcon },
   { name: "Decisions", href: "/decisions", icon: ClipboardDocumentListIcon },
   { name: "Allowlist", href: "/allowlist", icon: ShieldCheckIcon },
+  { name: "Audit", href: "/audit", icon: ClockIcon },
   // { name: "Settings", href: "/settings", icon: Cog6ToothIcon },
 ];
 
+// Detail pages such as /alerts/42 keep their section highlighted
+const isActivePath = (pathname: string, href: string) =>
+  pathname === href || (href !== "/" && pathname.startsWith(`${href}/`));
+
 export function Navigation() {
   const pathname = usePathname();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
-  const { logout } = useAuth();
+  const { logout, role, user } = useAuth();
+  // Sections the session's role can open, e.g. Audit for admins only;
+  // viewer sections while the session is loading
+  const visible = navigation.filter((item) =>
+    hasRole(role ?? "viewer", requiredRole(item.href))
+  );
 
   return (
     <>
@@ -70,8 +82,8 @@ export function Navigation() {
           mobileMenuOpen ? "translate-y-0" : "-translate-y-full"
         )}>
         <div className="px-2 pt-2 pb-3 space-y-1">
-          {navigation.map((item) => {
-            const isActive = pathname === item.href;
+          {visible.map((item) => {
+            const isActive = isActivePath(pathname, item.href);
             return (
               <Link
                 key={item.name}
@@ -98,17 +110,7 @@ export function Navigation() {
           })}
         </div>
         <div className="border-t border-gray-200 p-4">
-          <div className="flex items-center">
-            <div className="flex-shrink-0">
-              <div className="h-8 w-8 rounded-full bg-gray-300 flex items-center justify-center">
-                <span className="text-sm font-medium text-gray-700">U</span>
-              </div>
-            </div>
-            <div className="ml-3">
-              <p className="text-sm font-medium text-gray-700">User</p>
-              <p className="text-xs text-gray-500">Administrator</p>
-            </div>
-          </div>
+          <UserSummary user={user} />
           <button
             onClick={logout}
             className="mt-3 w-full inline-flex items-center justify-center rounded-md bg-gray-100 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200">
@@ -129,8 +131,8 @@ export function Navigation() {
           </div>
           <div className="mt-8 flex-grow flex flex-col">
             <nav className="flex-1 px-2 space-y-1">
-              {navigation.map((item) => {
-                const isActive = pathname === item.href;
+              {visible.map((item) => {
+                const isActive = isActivePath(pathname, item.href);
                 return (
                   <Link
                     key={item.name}
@@ -157,17 +159,7 @@ export function Navigation() {
             </nav>
           </div>
           <div className="flex-shrink-0 flex border-t border-gray-200 p-4">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <div className="h-8 w-8 rounded-full bg-gray-300 flex items-center justify-center">
-                  <span className="text-sm font-medium text-gray-700">U</span>
-                </div>
-              </div>
-              <div className="ml-3">
-                <p className="text-sm font-medium text-gray-700">User</p>
-                <p className="text-xs text-gray-500">Administrator</p>
-              </div>
-            </div>
+            <UserSummary user={user} />
             <button
               onClick={logout}
               className="ml-auto inline-flex items-center justify-center rounded-md bg-gray-100 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-200">
@@ -179,3 +171,38 @@ export function Navigation() {
     </>
   );
 }
+
+// "Jane Doe" -> "JD", "ops@example.com" -> "O"
+function initialsOf(text: string) {
+  const words = text
+    .split("@")[0]
+    .split(/[\s._-]+/)
+    .filter(Boolean);
+  return words
+    .slice(0, 2)
+    .map((w) => w[0].toUpperCase())
+    .join("");
+}
+
+function UserSummary({ user }: { user: SessionUser | null }) {
+  const displayName = user?.name || user?.email || "Signed in";
+  return (
+    <div className="flex items-center min-w-0">
+      <div className="flex-shrink-0">
+        <div className="h-8 w-8 rounded-full bg-gray-300 flex items-center justify-center">
+          <span className="text-sm font-medium text-gray-700">
+            {user ? initialsOf(displayName) : ""}
+          </span>
+        </div>
+      </div>
+      <div className="ml-3 min-w-0">
+        <p
+          className="text-sm font-medium text-gray-700 truncate"
+          title={user?.email ?? undefined}>
+          {displayName}
+        </p>
+        <p className="text-xs text-gray-500 capitalize">{user?.role ?? ""}</p>
+      </div>
+    </div>
+  );
+}
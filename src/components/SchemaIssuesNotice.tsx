@@ -0,0 +1,26 @@
+"use client";
+
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import type { SchemaIssue } from "@/lib/models";
+
+// Shown when an API route reports that the upstream payload did not match
+// the expected shape, so missing columns aren't mistaken for missing data.
+export function SchemaIssuesNotice({ issues }: { issues?: SchemaIssue[] }) {
+  if (!issues || issues.length === 0) return null;
+  return (
+    <details className="mb-6 rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+      <summary className="flex cursor-pointer items-center">
+        <ExclamationTriangleIcon className="h-4 w-4 mr-2" />
+        The upstream API returned {issues.length} unexpected field
+        {issues.length > 1 ? "s" : ""}; some values may be incomplete.
+      </summary>
+      <ul className="mt-2 space-y-1 font-mono text-xs">
+        {issues.map((issue) => (
+          <li key={`${issue.path}:${issue.message}`}>
+            {issue.path}: {issue.message}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useState } from "react";
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import { useAuth } from "@/contexts/AuthContext";
+
+// Shown while the session could not be refreshed but hasn't ended, so a
+// failing upstream refresh isn't discovered only when the token expires.
+export function SessionRefreshNotice() {
+  const { refreshError, refreshToken, logout } = useAuth();
+  const [retrying, setRetrying] = useState(false);
+  if (!refreshError) return null;
+
+  async function retry() {
+    setRetrying(true);
+    await refreshToken();
+    setRetrying(false);
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-b border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+      <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0" />
+      <span className="flex-1">
+        {refreshError}. Retrying automatically; if this keeps failing, sign in
+        again before the session expires.
+      </span>
+      <button
+        type="button"
+        onClick={retry}
+        disabled={retrying}
+        className="px-3 py-1 border border-yellow-300 text-xs font-medium rounded-md bg-white hover:bg-yellow-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+        {retrying ? "Retrying..." : "Retry now"}
+      </button>
+      <button
+        type="button"
+        onClick={() => void logout()}
+        className="px-3 py-1 border border-yellow-300 text-xs font-medium rounded-md bg-white hover:bg-yellow-100 transition-colors">
+        Sign in again
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { authFetch } from "@/lib/fetch";
+import { validateAllowlistGroup, type AllowlistGroup } from "@/lib/models";
+
+type AllowlistGroupModalProps = {
+  // The list being edited, or null to create one
+  group: AllowlistGroup | null;
+  onClose: () => void;
+  onSaved: (group: AllowlistGroup) => void;
+};
+
+export function AllowlistGroupModal({
+  group,
+  onClose,
+  onSaved,
+}: AllowlistGroupModalProps) {
+  const [name, setName] = useState(group?.name ?? "");
+  const [description, setDescription] = useState(group?.description ?? "");
+  const [owner, setOwner] = useState(group?.owner ?? "");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const validated = validateAllowlistGroup({ name, description, owner });
+    if (validated.error !== undefined) {
+      setError(validated.error);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await authFetch(
+        group ? `/api/allowlist/groups/${group.id}` : "/api/allowlist/groups",
+        {
+          method: group ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(validated.group),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to save list");
+      onSaved(data.group as AllowlistGroup);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save list");
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full">
+        <div className="px-6 py-5 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {group ? "Edit List" : "New List"}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500 transition-colors">
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+            <div>
+              <label
+                htmlFor="group-name"
+                className="block text-sm font-medium text-gray-700 mb-1">
+                Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                id="group-name"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Office egress"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="group-owner"
+                className="block text-sm font-medium text-gray-700 mb-1">
+                Owner
+              </label>
+              <input
+                type="text"
+                id="group-owner"
+                value={owner}
+                onChange={(e) => setOwner(e.target.value)}
+                placeholder="e.g., netops@example.com"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="group-description"
+                className="block text-sm font-medium text-gray-700 mb-1">
+                Description
+              </label>
+              <textarea
+                id="group-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What belongs in this list?"
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+            </div>
+          </div>
+          <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3 rounded-b-xl">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !name.trim()}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+              {submitting ? "Saving..." : group ? "Save" : "Create List"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ArrowUpTrayIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { authFetch } from "@/lib/fetch";
+import {
+  parseAllowlistImport,
+  type AllowlistEntry,
+  type AllowlistGroup,
+  type AllowlistImportResponse,
+  type AllowlistImportRow,
+} from "@/lib/models";
+
+const statusBadge: Record<AllowlistImportRow["status"], string> = {
+  valid: "bg-green-100 text-green-800",
+  invalid: "bg-red-100 text-red-800",
+  duplicate: "bg-yellow-100 text-yellow-800",
+};
+
+type ImportAllowlistModalProps = {
+  // Every entry, so rows already in another list count as duplicates
+  entries: AllowlistEntry[];
+  // The list imported rows are added to
+  group: AllowlistGroup;
+  onClose: () => void;
+  // Called after an import so the page can refresh its list
+  onImported: () => void;
+};
+
+export function ImportAllowlistModal({
+  entries,
+  group,
+  onClose,
+  onImported,
+}: ImportAllowlistModalProps) {
+  const [text, setText] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<AllowlistImportResponse | null>(null);
+
+  const rows = useMemo(
+    () => parseAllowlistImport(text, entries),
+    [text, entries]
+  );
+  const valid = rows.filter((r) => r.status === "valid");
+  const count = (status: AllowlistImportRow["status"]) =>
+    rows.filter((r) => r.status === status).length;
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+    setResult(null);
+  }
+
+  async function handleImport() {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await authFetch("/api/allowlist/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          entries: valid.map((r) => ({
+            ip: r.ip,
+            reason: r.reason,
+            expiresIn: r.expiresIn,
+          })),
+          group: group.id,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Import failed");
+      setResult(data as AllowlistImportResponse);
+      setText("");
+      onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-5 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Import into {group.name}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500 transition-colors">
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+          <p className="mt-1 text-sm text-gray-500">
+            Paste or upload CSV with <code>ip,reason,expires_in</code> columns
+            (header optional) or one address per line.
+          </p>
+        </div>
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+          {result && (
+            <div
+              className={`rounded-lg border px-3 py-2 text-sm ${
+                result.failed > 0
+                  ? "border-yellow-200 bg-yellow-50 text-yellow-800"
+                  : "border-green-200 bg-green-50 text-green-700"
+              }`}>
+              Imported {result.added} entr{result.added === 1 ? "y" : "ies"}
+              {result.failed > 0 && `, ${result.failed} failed:`}
+              {result.failed > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                  {result.results
+                    .filter((r) => r.status === "error")
+                    .map((r) => (
+                      <li key={r.ip}>
+                        <span className="font-mono">{r.ip}</span>: {r.error}
+                      </li>
+                    ))}
+                </ul>
+              )}
+            </div>
+          )}
+          <div className="flex items-center space-x-3">
+            <label className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+              <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+              Choose file
+              <input
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                onChange={handleFile}
+                className="hidden"
+              />
+            </label>
+            <span className="text-xs text-gray-500">or paste below</span>
+          </div>
+          <textarea
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setResult(null);
+            }}
+            rows={6}
+            placeholder={
+              "ip,reason,expires_in\n192.0.2.10,Pentest,7d\n10.0.0.0/8,Office"
+            }
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+
+          {rows.length > 0 && (
+            <div>
+              <p className="text-sm text-gray-700 mb-2">
+                {count("valid")} valid · {count("invalid")} invalid ·{" "}
+                {count("duplicate")} duplicate
+              </p>
+              <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      {["Line", "Entry", "Reason", "Expires", "Status"].map(
+                        (h) => (
+                          <th
+                            key={h}
+                            className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            {h}
+                          </th>
+                        )
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rows.map((row) => (
+                      <tr key={row.line}>
+                        <td className="px-3 py-1.5 text-gray-500">
+                          {row.line}
+                        </td>
+                        <td className="px-3 py-1.5 font-mono text-gray-900">
+                          {row.ip ?? row.input}
+                        </td>
+                        <td className="px-3 py-1.5 text-gray-600">
+                          {row.reason || "—"}
+                        </td>
+                        <td className="px-3 py-1.5 text-gray-600">
+                          {row.expiresIn || "Never"}
+                        </td>
+                        <td className="px-3 py-1.5" title={row.message || ""}>
+                          <span
+                            className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                              statusBadge[row.status]
+                            }`}>
+                            {row.status}
+                          </span>
+                          {row.message && (
+                            <div className="mt-0.5 text-xs text-gray-500">
+                              {row.message}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3 rounded-b-xl">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+            {result ? "Close" : "Cancel"}
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={submitting || valid.length === 0}
+            className="px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+            {submitting
+              ? "Importing..."
+              : `Import ${valid.length} entr${valid.length === 1 ? "y" : "ies"}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
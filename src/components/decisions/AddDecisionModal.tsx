@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { authFetch } from "@/lib/fetch";
+import {
+  DECISION_SCOPES,
+  DECISION_TYPES,
+  validateNewDecision,
+  type CreateDecisionResponse,
+  type Decision,
+  type DecisionScope,
+} from "@/lib/models";
+
+const valuePlaceholders: Record<DecisionScope, string> = {
+  Ip: "e.g., 192.0.2.10 or 2001:db8::10",
+  Range: "e.g., 192.0.2.0/24",
+  Country: "e.g., FR",
+  AS: "e.g., 13335",
+};
+
+const durationPresets = [
+  { value: "1h", label: "1 hour" },
+  { value: "4h", label: "4 hours" },
+  { value: "24h", label: "24 hours" },
+  { value: "168h", label: "7 days" },
+  { value: "720h", label: "30 days" },
+];
+
+type AddDecisionModalProps = {
+  onClose: () => void;
+  // Called with the created decision, or null when upstream didn't echo it
+  onCreated: (decision: Decision | null) => void;
+};
+
+export function AddDecisionModal({
+  onClose,
+  onCreated,
+}: AddDecisionModalProps) {
+  const [type, setType] = useState<string>("ban");
+  const [scope, setScope] = useState<DecisionScope>("Ip");
+  const [value, setValue] = useState("");
+  const [durationPreset, setDurationPreset] = useState("4h");
+  const [customDuration, setCustomDuration] = useState("");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const duration =
+    durationPreset === "custom" ? customDuration : durationPreset;
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const validated = validateNewDecision({
+      type,
+      scope,
+      value,
+      duration,
+      reason,
+    });
+    if (validated.error !== undefined) {
+      setError(validated.error);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await authFetch("/api/decisions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(validated.decision),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to create decision");
+      }
+      onCreated((data as CreateDecisionResponse).decision);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to create decision"
+      );
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full">
+        <div className="px-6 py-5 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Add Decision
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500 transition-colors">
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor="decision-type"
+                  className="block text-sm font-medium text-gray-700 mb-1">
+                  Type
+                </label>
+                <select
+                  id="decision-type"
+                  value={type}
+                  onChange={(e) => setType(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                  {DECISION_TYPES.map((t) => (
+                    <option key={t} value={t}>
+                      {t}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label
+                  htmlFor="decision-scope"
+                  className="block text-sm font-medium text-gray-700 mb-1">
+                  Scope
+                </label>
+                <select
+                  id="decision-scope"
+                  value={scope}
+                  onChange={(e) => setScope(e.target.value as DecisionScope)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                  {DECISION_SCOPES.map((s) => (
+                    <option key={s} value={s}>
+                      {s}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label
+                htmlFor="decision-value"
+                className="block text-sm font-medium text-gray-700 mb-1">
+                Value <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                id="decision-value"
+                required
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={valuePlaceholders[scope]}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="decision-duration"
+                className="block text-sm font-medium text-gray-700 mb-1">
+                Duration
+              </label>
+              <div className="flex space-x-2">
+                <select
+                  id="decision-duration"
+                  value={durationPreset}
+                  onChange={(e) => setDurationPreset(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                  {durationPresets.map((p) => (
+                    <option key={p.value} value={p.value}>
+                      {p.label}
+                    </option>
+                  ))}
+                  <option value="custom">Custom...</option>
+                </select>
+                {durationPreset === "custom" && (
+                  <input
+                    type="text"
+                    value={customDuration}
+                    onChange={(e) => setCustomDuration(e.target.value)}
+                    placeholder="e.g., 1h30m"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                )}
+              </div>
+            </div>
+            <div>
+              <label
+                htmlFor="decision-reason"
+                className="block text-sm font-medium text-gray-700 mb-1">
+                Reason <span className="text-red-500">*</span>
+              </label>
+              <textarea
+                id="decision-reason"
+                required
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why is this decision being added?"
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+            </div>
+          </div>
+          <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3 rounded-b-xl">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !value.trim()}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+              {submitting ? "Adding..." : "Add Decision"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { authFetch } from "@/lib/fetch";
+import {
+  DECISION_TYPES,
+  durationSeconds,
+  formatDuration,
+  validateDecisionUpdate,
+  type Decision,
+  type UpdateDecisionResponse,
+} from "@/lib/models";
+
+const durationPresets = [
+  { value: "1h", label: "1 hour" },
+  { value: "4h", label: "4 hours" },
+  { value: "24h", label: "24 hours" },
+  { value: "168h", label: "7 days" },
+  { value: "720h", label: "30 days" },
+];
+
+type EditDecisionModalProps = {
+  decision: Decision;
+  onClose: () => void;
+  onUpdated: (result: UpdateDecisionResponse) => void;
+};
+
+export function EditDecisionModal({
+  decision,
+  onClose,
+  onUpdated,
+}: EditDecisionModalProps) {
+  const [type, setType] = useState(decision.type);
+  // "keep" leaves the remaining time as is, e.g. when only the type changes
+  const [durationPreset, setDurationPreset] = useState("keep");
+  const [customDuration, setCustomDuration] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const remaining = durationSeconds(decision.duration);
+  const duration =
+    durationPreset === "keep"
+      ? undefined
+      : durationPreset === "custom"
+        ? customDuration
+        : durationPreset;
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const validated = validateDecisionUpdate({
+      type: type === decision.type ? undefined : type,
+      duration,
+    });
+    if (validated.error !== undefined) {
+      setError(validated.error);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await authFetch(`/api/decisions/${decision.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(validated.update),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to update decision");
+      }
+      onUpdated(data as UpdateDecisionResponse);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update decision"
+      );
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full">
+        <div className="px-6 py-5 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Edit Decision
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500 transition-colors">
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+          <p className="mt-1 text-sm text-gray-500">
+            {decision.value} • {decision.scenario || "-"} •{" "}
+            {decision.origin || "-"}
+          </p>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+            <div>
+              <label
+                htmlFor="edit-decision-type"
+                className="block text-sm font-medium text-gray-700 mb-1">
+                Type
+              </label>
+              <select
+                id="edit-decision-type"
+                value={type}
+                onChange={(e) => setType(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                {DECISION_TYPES.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="edit-decision-duration"
+                className="block text-sm font-medium text-gray-700 mb-1">
+                Remaining duration
+              </label>
+              <div className="flex space-x-2">
+                <select
+                  id="edit-decision-duration"
+                  value={durationPreset}
+                  onChange={(e) => setDurationPreset(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                  <option value="keep">
+                    Keep current
+                    {remaining ? ` (${formatDuration(remaining)} left)` : ""}
+                  </option>
+                  {durationPresets.map((p) => (
+                    <option key={p.value} value={p.value}>
+                      {p.label}
+                    </option>
+                  ))}
+                  <option value="custom">Custom...</option>
+                </select>
+                {durationPreset === "custom" && (
+                  <input
+                    type="text"
+                    value={customDuration}
+                    onChange={(e) => setCustomDuration(e.target.value)}
+                    placeholder="e.g., 1h30m"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                )}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Counted from now; pick a shorter time to shorten the decision.
+              </p>
+            </div>
+          </div>
+          <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3 rounded-b-xl">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+              {submitting ? "Saving..." : "Save changes"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowUpTrayIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { authFetch } from "@/lib/fetch";
+import {
+  DECISION_TYPES,
+  validateNewDecision,
+  type BlocklistImportResponse,
+  type BlocklistImportStatus,
+} from "@/lib/models";
+
+const durationPresets = [
+  { value: "4h", label: "4 hours" },
+  { value: "24h", label: "24 hours" },
+  { value: "168h", label: "7 days" },
+  { value: "720h", label: "30 days" },
+];
+
+const statusBadge: Record<BlocklistImportStatus, string> = {
+  new: "bg-blue-100 text-blue-800",
+  created: "bg-green-100 text-green-800",
+  invalid: "bg-red-100 text-red-800",
+  error: "bg-red-100 text-red-800",
+  duplicate: "bg-gray-100 text-gray-700",
+  allowlisted: "bg-yellow-100 text-yellow-800",
+  exists: "bg-gray-100 text-gray-700",
+};
+
+const statusLabels: [BlocklistImportStatus, string][] = [
+  ["new", "to create"],
+  ["created", "created"],
+  ["error", "failed"],
+  ["exists", "already blocked"],
+  ["allowlisted", "allowlisted"],
+  ["duplicate", "duplicate"],
+  ["invalid", "invalid"],
+];
+
+// Rendering tens of thousands of rows freezes the modal
+const MAX_PREVIEW_ROWS = 500;
+
+type ImportBlocklistModalProps = {
+  onClose: () => void;
+  // Called after decisions were created so the page can reload
+  onImported: () => void;
+};
+
+export function ImportBlocklistModal({
+  onClose,
+  onImported,
+}: ImportBlocklistModalProps) {
+  const [text, setText] = useState("");
+  const [type, setType] = useState<string>("ban");
+  const [durationPreset, setDurationPreset] = useState("24h");
+  const [customDuration, setCustomDuration] = useState("");
+  const [reason, setReason] = useState("");
+  const [preview, setPreview] = useState<BlocklistImportResponse | null>(null);
+  const [report, setReport] = useState<BlocklistImportResponse | null>(null);
+  const [busy, setBusy] = useState<"preview" | "import" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const duration =
+    durationPreset === "custom" ? customDuration : durationPreset;
+  const shown = report ?? preview;
+  const toCreate = preview?.counts.new ?? 0;
+
+  function changeText(value: string) {
+    setText(value);
+    setPreview(null);
+    setReport(null);
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    changeText(await file.text());
+    if (!reason) setReason(`Imported blocklist ${file.name}`);
+  }
+
+  async function submit(dryRun: boolean) {
+    setBusy(dryRun ? "preview" : "import");
+    setError(null);
+    try {
+      const res = await authFetch("/api/decisions/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ text, type, duration, reason, dryRun }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Import failed");
+      return data as BlocklistImportResponse;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handlePreview() {
+    const data = await submit(true);
+    if (data) setPreview(data);
+  }
+
+  async function handleImport() {
+    // Type, duration and reason apply to every row; any valid address
+    // exercises the same checks the route runs
+    const validated = validateNewDecision({
+      type,
+      scope: "Ip",
+      value: "192.0.2.1",
+      duration,
+      reason,
+    });
+    if (validated.error !== undefined) {
+      setError(validated.error);
+      return;
+    }
+    const data = await submit(false);
+    if (!data) return;
+    setReport(data);
+    setPreview(null);
+    if (data.counts.created) onImported();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-5 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Import Blocklist
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500 transition-colors">
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+          <p className="mt-1 text-sm text-gray-500">
+            Upload or paste a text file with addresses or CIDR ranges, one or
+            more per line. <code>#</code> and <code>;</code> start comments.
+            Allowlisted and already blocked values are skipped.
+          </p>
+        </div>
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+          {report && (
+            <div
+              className={`rounded-lg border px-3 py-2 text-sm ${
+                report.counts.error
+                  ? "border-yellow-200 bg-yellow-50 text-yellow-800"
+                  : "border-green-200 bg-green-50 text-green-700"
+              }`}>
+              Created {report.counts.created ?? 0} decision
+              {report.counts.created === 1 ? "" : "s"}, skipped{" "}
+              {(report.counts.exists ?? 0) +
+                (report.counts.allowlisted ?? 0) +
+                (report.counts.duplicate ?? 0) +
+                (report.counts.invalid ?? 0)}
+              {report.counts.error ? `, ${report.counts.error} failed` : ""}.
+            </div>
+          )}
+          <div className="flex items-center space-x-3">
+            <label className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+              <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+              Choose file
+              <input
+                type="file"
+                accept=".txt,.csv,.netset,.ipset,text/plain"
+                onChange={handleFile}
+                className="hidden"
+              />
+            </label>
+            <span className="text-xs text-gray-500">or paste below</span>
+          </div>
+          <textarea
+            value={text}
+            onChange={(e) => changeText(e.target.value)}
+            rows={6}
+            placeholder={"# partner list\n192.0.2.10\n198.51.100.0/24 ; SBL123"}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="import-type"
+                className="block text-sm font-medium text-gray-700 mb-1">
+                Type
+              </label>
+              <select
+                id="import-type"
+                value={type}
+                onChange={(e) => setType(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                {DECISION_TYPES.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="import-duration"
+                className="block text-sm font-medium text-gray-700 mb-1">
+                Duration
+              </label>
+              <div className="flex space-x-2">
+                <select
+                  id="import-duration"
+                  value={durationPreset}
+                  onChange={(e) => setDurationPreset(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+                  {durationPresets.map((p) => (
+                    <option key={p.value} value={p.value}>
+                      {p.label}
+                    </option>
+                  ))}
+                  <option value="custom">Custom...</option>
+                </select>
+                {durationPreset === "custom" && (
+                  <input
+                    type="text"
+                    value={customDuration}
+                    onChange={(e) => setCustomDuration(e.target.value)}
+                    placeholder="e.g., 12h"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+          <div>
+            <label
+              htmlFor="import-reason"
+              className="block text-sm font-medium text-gray-700 mb-1">
+              Reason <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              id="import-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Partner blocklist 2024-06"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {shown && (
+            <div>
+              <p className="text-sm text-gray-700 mb-2">
+                {statusLabels
+                  .filter(([status]) => shown.counts[status])
+                  .map(([status, label]) => `${shown.counts[status]} ${label}`)
+                  .join(" · ") || "Nothing found to import"}
+              </p>
+              {shown.rows.length > 0 && (
+                <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        {["Line", "Value", "Status"].map((h) => (
+                          <th
+                            key={h}
+                            className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            {h}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {shown.rows.slice(0, MAX_PREVIEW_ROWS).map((row, i) => (
+                        <tr key={i}>
+                          <td className="px-3 py-1.5 text-gray-500">
+                            {row.line}
+                          </td>
+                          <td className="px-3 py-1.5 font-mono text-gray-900">
+                            {row.value ?? row.input}
+                          </td>
+                          <td className="px-3 py-1.5">
+                            <span
+                              className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                                statusBadge[row.status]
+                              }`}>
+                              {row.status}
+                            </span>
+                            {row.detail && (
+                              <div className="mt-0.5 text-xs text-gray-500">
+                                {row.detail}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {shown.rows.length > MAX_PREVIEW_ROWS && (
+                    <p className="px-3 py-2 text-xs text-gray-500 border-t border-gray-100">
+                      Showing the first {MAX_PREVIEW_ROWS} of{" "}
+                      {shown.rows.length} rows
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3 rounded-b-xl">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+            {report ? "Close" : "Cancel"}
+          </button>
+          {preview ? (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={busy !== null || toCreate === 0 || !reason.trim()}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+              {busy === "import"
+                ? "Creating..."
+                : `Create ${toCreate} decision${toCreate === 1 ? "" : "s"}`}
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={busy !== null || !text.trim()}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+              {busy === "preview" ? "Checking..." : "Preview"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,3 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 "use client";
 
 import {
@@ -12,29 +11,79 @@ import {
 } from "react";
 
 import { useRouter, usePathname } from "next/navigation";
+import {
+  onRefresh,
+  redirectToLogin,
+  refreshSession,
+  type RefreshOutcome,
+} from "@/lib/fetch";
+import type {
+  LoginErrorCode,
+  LoginErrorResponse,
+  Role,
+  SessionResponse,
+  SessionUser,
+} from "@/lib/models";
+
+// Second login step for accounts with two-factor authentication
+export type SecondFactor =
+  { twoFactorCode: string } | { twoFactorRecoveryCode: string };
+
+// A refused login; `code` says whether a second factor is needed or was wrong
+export class LoginError extends Error {
+  readonly code: LoginErrorCode | null;
+
+  constructor(message: string, code: LoginErrorCode | null = null) {
+    super(message);
+    this.name = "LoginError";
+    this.code = code;
+  }
+}
 
 type AuthContextValue = {
   isAuthenticated: boolean | null; // null while loading
-  login: (email: string, password: string) => Promise<void>;
+  user: SessionUser | null; // null until the session is known
+  role: Role | null; // user?.role
+  login: (
+    email: string,
+    password: string,
+    secondFactor?: SecondFactor
+  ) => Promise<void>;
   logout: () => Promise<void>;
   refresh: () => Promise<void>;
   checkSession: () => Promise<boolean>;
+  // Why the last token refresh failed while the session may still be valid
+  refreshError: string | null;
+  refreshToken: () => Promise<boolean>;
 };
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
-// Session check interval (5 minutes)
+// Refresh this long before the access token expires
+const REFRESH_MARGIN = 60 * 1000;
+
+// Retry delay after a refresh failed without ending the session
+const REFRESH_RETRY_DELAY = 30 * 1000;
+
+// Session check interval when the token expiry is unknown (5 minutes)
 const SESSION_CHECK_INTERVAL = 5 * 60 * 1000;
 
-// Refresh token interval (10 minutes)
-const REFRESH_INTERVAL = 10 * 60 * 1000;
+// Keeps a clock skewed against the server's from refreshing in a loop
+const MIN_TIMER_DELAY = 10 * 1000;
+
+// setTimeout fires immediately beyond ~24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const router = useRouter();
   const pathname = usePathname();
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
-  const sessionCheckIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
+  // A new object per failed refresh, so each failure schedules a retry
+  const [refreshFailure, setRefreshFailure] = useState<{
+    error: string;
+  } | null>(null);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
   const isLoggingOutRef = useRef(false);
   const justLoggedInRef = useRef(false);
 
@@ -65,10 +114,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         return false;
       }
 
-      const data = (await res.json()) as { authenticated: boolean };
+      const data = (await res.json()) as SessionResponse;
       const isAuth = !!data?.authenticated;
       console.log("[AUTH] Session valid:", isAuth);
       setIsAuthenticated(isAuth);
+      setUser(isAuth ? (data.user ?? null) : null);
 
       if (
         !isAuth &&
@@ -91,38 +141,43 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [router, pathname]);
 
-  // Refresh authentication token
+  // Refresh authentication token. The outcome reaches the state through
+  // the onRefresh listener below, shared with refreshes started by authFetch
   const refreshToken = useCallback(async (): Promise<boolean> => {
-    try {
-      console.log("[AUTH] Refreshing token...");
-      const res = await fetch("/api/refresh", {
-        method: "POST",
-        credentials: "include",
-      });
-
-      if (!res.ok || res.status === 401) {
-        console.log("[AUTH] Token refresh failed, status:", res.status);
-        setIsAuthenticated(false);
-
-        if (
-          !isLoggingOutRef.current &&
-          pathname &&
-          !pathname.startsWith("/login")
-        ) {
-          console.log("[AUTH] Redirecting to login due to refresh failure");
-          router.replace("/login?reason=token_expired");
-        }
-        return false;
-      }
-
-      const data = await res.json();
-      console.log("[AUTH] Token refresh successful:", data);
-      return true;
-    } catch (err) {
-      console.error("[AUTH] Token refresh error:", err);
-      return false;
+    console.log("[AUTH] Refreshing token...");
+    const outcome = await refreshSession();
+    if (outcome.ok) return true;
+
+    console.log("[AUTH] Token refresh failed:", outcome.error);
+    if (
+      outcome.expired &&
+      !isLoggingOutRef.current &&
+      pathname &&
+      !pathname.startsWith("/login")
+    ) {
+      await redirectToLogin("session_expired");
     }
-  }, [router, pathname]);
+    return false;
+  }, [pathname]);
+
+  useEffect(
+    () =>
+      onRefresh((outcome: RefreshOutcome) => {
+        if (outcome.ok) {
+          setRefreshFailure(null);
+          if (outcome.refreshed) {
+            setUser((u) => u && { ...u, expiresAt: outcome.expiresAt });
+          }
+        } else if (outcome.expired) {
+          setRefreshFailure(null);
+          setIsAuthenticated(false);
+          setUser(null);
+        } else {
+          setRefreshFailure({ error: outcome.error });
+        }
+      }),
+    []
+  );
 
   // Legacy refresh method (now calls checkSession)
   const refresh = useCallback(async () => {
@@ -130,13 +185,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }, [checkSession]);
 
   const login = useCallback(
-    async (email: string, password: string) => {
+    async (email: string, password: string, secondFactor?: SecondFactor) => {
       console.log("[AUTH] Login attempt for:", email);
 
       const res = await fetch("/api/login", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify({ email, password, ...secondFactor }),
         credentials: "include",
       });
 
@@ -145,7 +200,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       console.log("[AUTH] Login response data:", data);
 
       if (!res.ok) {
-        throw new Error((data as any)?.error || "Login failed");
+        const { error, code } = data as Partial<LoginErrorResponse>;
+        throw new LoginError(error || "Login failed", code ?? null);
       }
 
       // Set flag to prevent immediate logout redirect
@@ -167,14 +223,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const logout = useCallback(async () => {
     isLoggingOutRef.current = true;
 
-    // Clear intervals
-    if (sessionCheckIntervalRef.current) {
-      clearInterval(sessionCheckIntervalRef.current);
-      sessionCheckIntervalRef.current = null;
-    }
-    if (refreshIntervalRef.current) {
-      clearInterval(refreshIntervalRef.current);
-      refreshIntervalRef.current = null;
+    // Clear the scheduled refresh
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
     }
 
     await fetch("/api/logout", {
@@ -183,6 +235,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     });
 
     setIsAuthenticated(false);
+    setUser(null);
+    setRefreshFailure(null);
     router.replace("/login");
 
     // Reset logout flag after navigation
@@ -191,37 +245,38 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }, 1000);
   }, [router]);
 
-  // Setup periodic session checks and token refresh
+  // Refresh shortly before the token expires, retry after a failed refresh,
+  // and fall back to periodic session checks when the expiry is unknown
+  const expiresAt = user?.expiresAt ?? null;
   useEffect(() => {
-    if (isAuthenticated === true) {
-      console.log(
-        "[AUTH] Setting up periodic session checks and token refresh"
-      );
-
-      // Check session every 5 minutes
-      sessionCheckIntervalRef.current = setInterval(() => {
-        console.log("[AUTH] Periodic session check");
+    if (isAuthenticated !== true) return;
+
+    const expiry = expiresAt ? Date.parse(expiresAt) : NaN;
+    if (!refreshFailure && Number.isNaN(expiry)) {
+      console.log("[AUTH] Token expiry unknown, checking session periodically");
+      const id = setInterval(() => {
         void checkSession();
       }, SESSION_CHECK_INTERVAL);
-
-      // Refresh token every 10 minutes
-      refreshIntervalRef.current = setInterval(() => {
-        console.log("[AUTH] Periodic token refresh");
-        void refreshToken();
-      }, REFRESH_INTERVAL);
-
-      return () => {
-        if (sessionCheckIntervalRef.current) {
-          clearInterval(sessionCheckIntervalRef.current);
-          sessionCheckIntervalRef.current = null;
-        }
-        if (refreshIntervalRef.current) {
-          clearInterval(refreshIntervalRef.current);
-          refreshIntervalRef.current = null;
-        }
-      };
+      return () => clearInterval(id);
     }
-  }, [isAuthenticated, checkSession, refreshToken]);
+
+    let delay = refreshFailure
+      ? REFRESH_RETRY_DELAY
+      : expiry - REFRESH_MARGIN - Date.now();
+    delay = Math.min(Math.max(delay, MIN_TIMER_DELAY), MAX_TIMER_DELAY);
+    console.log("[AUTH] Next token refresh in", Math.round(delay / 1000), "s");
+
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      void refreshToken();
+    }, delay);
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+    };
+  }, [isAuthenticated, expiresAt, refreshFailure, checkSession, refreshToken]);
 
   // Initial session check
   useEffect(() => {
@@ -232,8 +287,27 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }, [checkSession]);
 
   const value = useMemo<AuthContextValue>(
-    () => ({ isAuthenticated, login, logout, refresh, checkSession }),
-    [isAuthenticated, login, logout, refresh, checkSession]
+    () => ({
+      isAuthenticated,
+      user,
+      role: user?.role ?? null,
+      login,
+      logout,
+      refresh,
+      checkSession,
+      refreshError: refreshFailure?.error ?? null,
+      refreshToken,
+    }),
+    [
+      isAuthenticated,
+      user,
+      login,
+      logout,
+      refresh,
+      checkSession,
+      refreshFailure,
+      refreshToken,
+    ]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
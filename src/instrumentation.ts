@@ -0,0 +1,12 @@
+// Runs once when the server starts
+export async function register() {
+  // The store and the sweep need the Node.js runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Refuse to start rather than run without audit records
+    const { assertStoreWritable } = await import("@/lib/store");
+    await assertStoreWritable();
+
+    const { startAllowlistExpirySweep } = await import("@/lib/allowlist-store");
+    startAllowlistExpirySweep();
+  }
+}
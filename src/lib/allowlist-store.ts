@@ -0,0 +1,391 @@
+import { randomUUID } from "crypto";
+import {
+  DEFAULT_ALLOWLIST_GROUP,
+  parseAllowlist,
+  type AllowlistEntry,
+  type AllowlistEntryUpdate,
+  type AllowlistExpiry,
+  type AllowlistGroup,
+  type AllowlistGroupFields,
+} from "@/lib/models";
+import { recordAudit, SYSTEM_ACTOR } from "@/lib/audit";
+import { readJson, updateJson } from "@/lib/store";
+import {
+  getServiceUpstreamClient,
+  UpstreamError,
+  type UpstreamClient,
+} from "@/lib/upstream";
+
+/**
+ * Local allowlist metadata the upstream API doesn't keep, keyed by entry ip.
+ * Server-only.
+ */
+
+type EntryMeta = {
+  expiresAt?: string | null;
+  group?: string;
+  tags?: string[];
+  // Kept across in-place edits, which re-add the entry upstream
+  createdAt?: string | null;
+  updatedAt?: string;
+};
+
+const META_FILE = "allowlist-meta";
+const EXPIRED_FILE = "allowlist-expired";
+const GROUPS_FILE = "allowlist-groups";
+
+// Built-in list for entries that were never assigned to a named one
+const DEFAULT_GROUP: AllowlistGroup = {
+  id: DEFAULT_ALLOWLIST_GROUP,
+  name: "General",
+  description: "Entries not assigned to a named list",
+  owner: null,
+  createdAt: null,
+};
+
+// How many sweep removals are kept for the "recently expired" list
+const MAX_EXPIRED_LOG = 200;
+
+// How often the server sweeps expired entries on its own
+const SWEEP_INTERVAL_MS =
+  Number(process.env.ALLOWLIST_SWEEP_INTERVAL_MS) || 60_000;
+
+export async function withAllowlistMeta(
+  entries: AllowlistEntry[]
+): Promise<AllowlistEntry[]> {
+  const meta = await readJson<Record<string, EntryMeta>>(META_FILE, {});
+  return entries.map((entry) => {
+    const m = meta[entry.ip] ?? {};
+    // An expiry set by an in-place edit wins, including a cleared one
+    const expiresAt =
+      m.updatedAt && m.expiresAt !== undefined
+        ? m.expiresAt
+        : (entry.expiresAt ?? m.expiresAt ?? null);
+    return {
+      ...entry,
+      createdAt: m.createdAt ?? entry.createdAt,
+      updatedAt: latest(entry.updatedAt, m.updatedAt ?? null),
+      expiresAt,
+      group: m.group ?? DEFAULT_ALLOWLIST_GROUP,
+      tags: m.tags ?? [],
+    };
+  });
+}
+
+function latest(a: string | null, b: string | null) {
+  if (!a || !b) return a ?? b;
+  return Date.parse(a) >= Date.parse(b) ? a : b;
+}
+
+/**
+ * Change an entry's reason, tags or expiry in place. Upstream has no update
+ * call, so reason and expiry are written by re-adding the same address; the
+ * original creation time and the edit time are kept locally so the entry
+ * doesn't look new afterwards.
+ */
+export async function updateAllowlistEntry(
+  api: UpstreamClient,
+  entry: AllowlistEntry,
+  update: AllowlistEntryUpdate
+): Promise<AllowlistEntry> {
+  const updated: AllowlistEntry = {
+    ...entry,
+    ...update,
+    updatedAt: new Date().toISOString(),
+  };
+  if (update.reason !== undefined || update.expiresAt !== undefined) {
+    await api.allowlist.add(entry.ip, updated.reason ?? "", updated.expiresAt);
+  }
+  await updateJson<Record<string, EntryMeta>>(META_FILE, {}, (meta) => {
+    meta[entry.ip] = {
+      ...meta[entry.ip],
+      createdAt: entry.createdAt,
+      updatedAt: updated.updatedAt as string,
+      expiresAt: updated.expiresAt,
+    };
+    if (update.tags !== undefined) {
+      if (update.tags.length > 0) meta[entry.ip].tags = update.tags;
+      else delete meta[entry.ip].tags;
+    }
+    return meta;
+  });
+  return updated;
+}
+
+/**
+ * Assign entries to a named list. Fails with not_found when the list
+ * doesn't exist.
+ */
+export async function setAllowlistGroup(ips: string[], group: string) {
+  const groups = await listAllowlistGroups();
+  if (!groups.some((g) => g.id === group)) {
+    throw new UpstreamError("not_found", "Allowlist not found");
+  }
+  return updateJson<Record<string, EntryMeta>>(META_FILE, {}, (meta) => {
+    for (const ip of ips) {
+      if (group !== DEFAULT_ALLOWLIST_GROUP) {
+        meta[ip] = { ...meta[ip], group };
+      } else if (meta[ip]) {
+        delete meta[ip].group;
+      }
+    }
+    return meta;
+  });
+}
+
+export async function listAllowlistGroups(): Promise<AllowlistGroup[]> {
+  const groups = await readJson<AllowlistGroup[]>(GROUPS_FILE, []);
+  return [DEFAULT_GROUP, ...groups];
+}
+
+function assertUniqueName(
+  groups: AllowlistGroup[],
+  name: string,
+  exceptId?: string
+) {
+  const taken = [DEFAULT_GROUP, ...groups].some(
+    (g) => g.id !== exceptId && g.name.toLowerCase() === name.toLowerCase()
+  );
+  if (taken) {
+    throw new UpstreamError(
+      "bad_request",
+      `A list named "${name}" already exists`,
+      { status: 409 }
+    );
+  }
+}
+
+export async function createAllowlistGroup(fields: AllowlistGroupFields) {
+  const group: AllowlistGroup = {
+    id: randomUUID(),
+    ...fields,
+    createdAt: new Date().toISOString(),
+  };
+  await updateJson<AllowlistGroup[]>(GROUPS_FILE, [], (groups) => {
+    assertUniqueName(groups, fields.name);
+    return [...groups, group];
+  });
+  return group;
+}
+
+export async function updateAllowlistGroup(
+  id: string,
+  fields: AllowlistGroupFields
+) {
+  if (id === DEFAULT_ALLOWLIST_GROUP) {
+    throw new UpstreamError("bad_request", "The default list can't be edited");
+  }
+  let updated: AllowlistGroup | undefined;
+  await updateJson<AllowlistGroup[]>(GROUPS_FILE, [], (groups) => {
+    const index = groups.findIndex((g) => g.id === id);
+    if (index === -1) {
+      throw new UpstreamError("not_found", "Allowlist not found");
+    }
+    assertUniqueName(groups, fields.name, id);
+    updated = { ...groups[index], ...fields };
+    return groups.map((g, i) =>
+      i === index ? (updated as AllowlistGroup) : g
+    );
+  });
+  return updated as AllowlistGroup;
+}
+
+/**
+ * Delete a named list. Its entries stay allowlisted and move back to the
+ * default list.
+ */
+export async function deleteAllowlistGroup(id: string) {
+  if (id === DEFAULT_ALLOWLIST_GROUP) {
+    throw new UpstreamError("bad_request", "The default list can't be deleted");
+  }
+  await updateJson<AllowlistGroup[]>(GROUPS_FILE, [], (groups) => {
+    if (!groups.some((g) => g.id === id)) {
+      throw new UpstreamError("not_found", "Allowlist not found");
+    }
+    return groups.filter((g) => g.id !== id);
+  });
+  await updateJson<Record<string, EntryMeta>>(META_FILE, {}, (meta) => {
+    for (const entry of Object.values(meta)) {
+      if (entry.group === id) delete entry.group;
+    }
+    return meta;
+  });
+}
+
+/**
+ * Add an entry upstream together with its local expiry, list and tags.
+ * The metadata is written first so an entry never reaches upstream without
+ * the expiry that removes it; if the add fails, the previous metadata is put
+ * back. `tags` left out keeps the entry's current tags. Used by
+ * POST /api/allowlist and the import.
+ */
+export async function addAllowlistEntry(
+  api: UpstreamClient,
+  entry: {
+    ip: string;
+    reason?: string;
+    expiresAt: string | null;
+    group: string;
+    tags?: string[];
+  }
+) {
+  const groups = await listAllowlistGroups();
+  if (!groups.some((g) => g.id === entry.group)) {
+    throw new UpstreamError("not_found", "Allowlist not found");
+  }
+  let previous: EntryMeta | undefined;
+  await updateJson<Record<string, EntryMeta>>(META_FILE, {}, (meta) => {
+    previous = meta[entry.ip];
+    const next: EntryMeta = { ...previous };
+    if (entry.expiresAt) next.expiresAt = entry.expiresAt;
+    else delete next.expiresAt;
+    if (entry.group !== DEFAULT_ALLOWLIST_GROUP) next.group = entry.group;
+    else delete next.group;
+    if (entry.tags?.length) next.tags = entry.tags;
+    else if (entry.tags) delete next.tags;
+    if (previous || Object.keys(next).length > 0) meta[entry.ip] = next;
+    return meta;
+  });
+
+  try {
+    return await api.allowlist.add(entry.ip, entry.reason, entry.expiresAt);
+  } catch (err) {
+    await updateJson<Record<string, EntryMeta>>(META_FILE, {}, (meta) => {
+      if (previous) meta[entry.ip] = previous;
+      else delete meta[entry.ip];
+      return meta;
+    }).catch((restoreErr) => {
+      console.error("[ALLOWLIST] Could not restore entry metadata", {
+        ip: entry.ip,
+        requestId: api.requestId,
+        error: (restoreErr as Error).message,
+      });
+    });
+    throw err;
+  }
+}
+
+/**
+ * Remove an entry upstream and forget its local metadata. Used by
+ * DELETE /api/allowlist/[ip] and by the expiry sweep.
+ */
+export async function removeAllowlistEntry(api: UpstreamClient, ip: string) {
+  const data = await api.allowlist.remove(ip);
+  await updateJson<Record<string, EntryMeta>>(META_FILE, {}, (meta) => {
+    delete meta[ip];
+    return meta;
+  });
+  return data;
+}
+
+// Resolves to the addresses the running sweep removed
+let sweeping: Promise<Set<string>> | null = null;
+
+/**
+ * Remove entries whose expiry has passed and record each removal. Returns
+ * the entries still allowlisted. Failed removals are logged and retried on
+ * the next sweep.
+ */
+export async function sweepExpiredAllowlist(
+  api: UpstreamClient,
+  entries: AllowlistEntry[],
+  now = Date.now()
+): Promise<AllowlistEntry[]> {
+  // Another sweep is already running; entries it removed are gone and must
+  // not be removed a second time
+  while (sweeping) {
+    const gone = await sweeping.catch(() => new Set<string>());
+    entries = entries.filter((e) => !gone.has(e.ip));
+  }
+
+  const due = entries.filter(
+    (e) => e.expiresAt && Date.parse(e.expiresAt) <= now
+  );
+  if (due.length === 0) return entries;
+
+  const removed: AllowlistExpiry[] = [];
+  const run = (async () => {
+    for (const entry of due) {
+      try {
+        await removeAllowlistEntry(api, entry.ip);
+        await recordAudit(
+          { api, actor: SYSTEM_ACTOR },
+          { action: "allowlist.expire", target: entry.ip, before: entry },
+          { ok: true, status: 200, error: null }
+        );
+        removed.push({
+          ip: entry.ip,
+          reason: entry.reason,
+          expiresAt: entry.expiresAt as string,
+          removedAt: new Date().toISOString(),
+        });
+      } catch (err) {
+        await recordAudit(
+          { api, actor: SYSTEM_ACTOR },
+          { action: "allowlist.expire", target: entry.ip, before: entry },
+          { ok: false, status: null, error: (err as Error).message }
+        );
+        console.warn("[ALLOWLIST] Expiry sweep could not remove entry", {
+          ip: entry.ip,
+          requestId: api.requestId,
+          error: (err as Error).message,
+        });
+      }
+    }
+    if (removed.length > 0) {
+      console.log("[ALLOWLIST] Expired entries removed", {
+        ips: removed.map((r) => r.ip),
+        requestId: api.requestId,
+      });
+      await updateJson<AllowlistExpiry[]>(EXPIRED_FILE, [], (log) =>
+        [...removed.reverse(), ...log].slice(0, MAX_EXPIRED_LOG)
+      );
+    }
+    return new Set(removed.map((r) => r.ip));
+  })();
+  sweeping = run;
+  let gone: Set<string>;
+  try {
+    gone = await run;
+  } finally {
+    if (sweeping === run) sweeping = null;
+  }
+  return entries.filter((e) => !gone.has(e.ip));
+}
+
+/**
+ * Sweep on a timer with the UPSTREAM_SERVICE_TOKEN credential, so expired
+ * entries leave the upstream allowlist even when nobody opens the
+ * allowlist page. Started once at server start; without the credential
+ * expired entries stay upstream and are only hidden from the allowlist.
+ */
+export function startAllowlistExpirySweep() {
+  try {
+    getServiceUpstreamClient();
+  } catch (err) {
+    console.warn(
+      "[ALLOWLIST] Scheduled expiry sweep disabled:",
+      (err as Error).message
+    );
+    return;
+  }
+  const timer = setInterval(async () => {
+    try {
+      const api = getServiceUpstreamClient();
+      const { allowlist } = parseAllowlist(await api.allowlist.list());
+      await sweepExpiredAllowlist(api, await withAllowlistMeta(allowlist));
+    } catch (err) {
+      console.warn(
+        "[ALLOWLIST] Scheduled expiry sweep failed:",
+        (err as Error).message
+      );
+    }
+  }, SWEEP_INTERVAL_MS);
+  // Never keep the process alive just for the sweep
+  timer.unref();
+}
+
+export async function recentAllowlistExpiries(limit = 20) {
+  const log = await readJson<AllowlistExpiry[]>(EXPIRED_FILE, []);
+  return log.slice(0, limit);
+}
@@ -0,0 +1,142 @@
+import { cookies } from "next/headers";
+import { createHash } from "crypto";
+import type { AuditAction, AuditRecord, AuditResult } from "@/lib/models";
+import { claimsSubject, sessionClaims } from "@/lib/session";
+import { readJson, updateJson } from "@/lib/store";
+import { UpstreamError, type UpstreamClient } from "@/lib/upstream";
+
+/**
+ * Persistent audit log of mutating proxy calls, kept in the local store.
+ * Server-only. Writing a record never fails the audited request: store
+ * errors are logged and swallowed.
+ */
+
+type AuditLog = { seq: number; records: AuditRecord[] };
+
+const AUDIT_FILE = "audit-log";
+
+// Oldest records are dropped beyond this, the file is rewritten per record
+const MAX_AUDIT_RECORDS = Number(process.env.AUDIT_MAX_RECORDS) || 10_000;
+
+// Actor recorded for changes made by the server itself, e.g. expiry sweeps
+export const SYSTEM_ACTOR = "system";
+
+// Opaque tokens get a stable pseudonym rather than the secret itself
+async function actorFromToken(token: string) {
+  const subject = claimsSubject(await sessionClaims(token));
+  if (subject) return subject;
+  const hash = createHash("sha256").update(token).digest("hex");
+  return `session:${hash.slice(0, 12)}`;
+}
+
+export async function currentActor() {
+  const token = (await cookies()).get("auth_token")?.value;
+  return token ? await actorFromToken(token) : "anonymous";
+}
+
+export function clientIp(req: Request) {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || req.headers.get("x-real-ip") || null;
+}
+
+type AuditEvent = {
+  action: AuditAction;
+  target: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+type AuditSource = {
+  req?: Request;
+  api?: UpstreamClient;
+  actor?: string;
+};
+
+export async function recordAudit(
+  source: AuditSource,
+  event: AuditEvent,
+  result: AuditResult
+) {
+  try {
+    const actor = source.actor ?? (await currentActor());
+    await updateJson<AuditLog>(AUDIT_FILE, { seq: 0, records: [] }, (log) => {
+      const record: AuditRecord = {
+        id: log.seq + 1,
+        timestamp: new Date().toISOString(),
+        actor,
+        clientIp: source.req ? clientIp(source.req) : null,
+        action: event.action,
+        target: event.target,
+        before: event.before ?? null,
+        after: event.after ?? null,
+        result,
+        requestId: source.api?.requestId ?? null,
+      };
+      return {
+        seq: record.id,
+        records: [...log.records, record].slice(-MAX_AUDIT_RECORDS),
+      };
+    });
+  } catch (err) {
+    console.error("[AUDIT] Could not write audit record", {
+      action: event.action,
+      target: event.target,
+      error: (err as Error).message,
+    });
+  }
+}
+
+/**
+ * Run a mutation and audit its outcome. `after` is the recorded after-state,
+ * or derives it from the mutation's result; when the mutation returns a
+ * response and no `after` is given, the response body is recorded. Errors
+ * are recorded and rethrown unchanged.
+ */
+export async function audited<T>(
+  source: AuditSource,
+  event: Omit<AuditEvent, "after"> & {
+    after?: unknown | ((result: T) => unknown);
+  },
+  run: () => Promise<T>
+): Promise<T> {
+  let result: T;
+  try {
+    result = await run();
+  } catch (err) {
+    const status =
+      err instanceof UpstreamError ? (err.upstreamStatus ?? err.status) : null;
+    await recordAudit(
+      source,
+      { ...event, after: null },
+      { ok: false, status, error: (err as Error).message }
+    );
+    throw err;
+  }
+
+  let after =
+    typeof event.after === "function" ? event.after(result) : event.after;
+  let status = 200;
+  if (result instanceof Response) {
+    status = result.status;
+    if (after === undefined) {
+      after = await result
+        .clone()
+        .json()
+        .catch(() => null);
+    }
+  }
+  // 207: some items of a bulk call failed
+  const ok = status < 300 && status !== 207;
+  await recordAudit(
+    source,
+    { ...event, after },
+    { ok, status, error: ok ? null : "Some items failed" }
+  );
+  return result;
+}
+
+// Newest first
+export async function readAuditLog() {
+  const log = await readJson<AuditLog>(AUDIT_FILE, { seq: 0, records: [] });
+  return [...log.records].reverse();
+}
@@ -0,0 +1,87 @@
+import type { cookies } from "next/headers";
+
+/**
+ * The httpOnly cookies behind a signed-in session: the upstream access
+ * token, the refresh token when upstream issues one, and the access token's
+ * expiry when upstream reports a lifetime instead of a JWT `exp` claim.
+ * Written by the login and refresh routes, cleared on logout.
+ */
+
+type CookieStore = Awaited<ReturnType<typeof cookies>>;
+
+export const AUTH_COOKIE = "auth_token";
+export const REFRESH_COOKIE = "refresh_token";
+export const EXPIRES_COOKIE = "auth_expires_at";
+
+// Only the refresh route ever needs the refresh token
+const REFRESH_COOKIE_PATH = "/api/refresh";
+
+// How long the browser keeps the cookies; upstream decides when the tokens
+// themselves stop being accepted
+const SESSION_MAX_AGE = 60 * 60 * 24 * 7; // 7 days
+const REFRESH_MAX_AGE = 60 * 60 * 24 * 14; // 14 days
+
+export type SessionTokens = {
+  accessToken: string;
+  refreshToken: string | null;
+  // From `expiresIn` (seconds), when upstream sends it
+  expiresAt: string | null;
+};
+
+/**
+ * Tokens from an upstream login or refresh response, e.g. ASP.NET Identity's
+ * `{ accessToken, expiresIn, refreshToken }`. Null without an access token.
+ */
+export function readSessionTokens(data: unknown): SessionTokens | null {
+  const rec =
+    data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const text = (v: unknown) => (typeof v === "string" && v ? v : null);
+  const accessToken = text(rec.accessToken);
+  if (!accessToken) return null;
+  const expiresIn = Number(rec.expiresIn);
+  return {
+    accessToken,
+    refreshToken: text(rec.refreshToken),
+    expiresAt:
+      expiresIn > 0
+        ? new Date(Date.now() + expiresIn * 1000).toISOString()
+        : null,
+  };
+}
+
+export function setSessionCookies(
+  cookieStore: CookieStore,
+  tokens: SessionTokens,
+  secure: boolean
+) {
+  const options = {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    path: "/",
+    secure,
+    maxAge: SESSION_MAX_AGE,
+  };
+  cookieStore.set(AUTH_COOKIE, tokens.accessToken, options);
+  if (tokens.expiresAt) {
+    cookieStore.set(EXPIRES_COOKIE, tokens.expiresAt, options);
+  } else {
+    cookieStore.set(EXPIRES_COOKIE, "", { path: "/", maxAge: 0 });
+  }
+  // Upstreams that don't rotate refresh tokens keep the one already stored
+  if (tokens.refreshToken) {
+    cookieStore.set(REFRESH_COOKIE, tokens.refreshToken, {
+      ...options,
+      path: REFRESH_COOKIE_PATH,
+      maxAge: REFRESH_MAX_AGE,
+    });
+  }
+}
+
+export function clearSessionCookies(cookieStore: CookieStore) {
+  cookieStore.set(AUTH_COOKIE, "", { path: "/", maxAge: 0 });
+  cookieStore.set(EXPIRES_COOKIE, "", { path: "/", maxAge: 0 });
+  cookieStore.set(REFRESH_COOKIE, "", {
+    path: REFRESH_COOKIE_PATH,
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,122 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { formatCidr, parseIpOrCidr, type Cidr, type IpVersion } from "@/lib/ip";
+import type { Decision } from "@/lib/models";
+
+/**
+ * Blocklist feed: active decisions rendered for firewalls and proxies that
+ * can't run a bouncer. Server-only.
+ */
+
+export const BLOCKLIST_FORMATS = [
+  "plain",
+  "nginx",
+  "ipset",
+  "haproxy",
+] as const;
+export type BlocklistFormat = (typeof BLOCKLIST_FORMATS)[number];
+
+export type BlocklistFilters = {
+  type: string;
+  origin?: string;
+  // Ip, Range, or both when unset
+  scope?: "Ip" | "Range";
+};
+
+// ipset names are limited to 31 characters; "-v6" is appended for IPv6
+const IPSET_NAME_RE = /^[\w-]{1,28}$/;
+const DEFAULT_IPSET_NAME = "crowdsec-blocklist";
+
+/**
+ * Compare a presented feed token with BLOCKLIST_FEED_TOKEN in constant time.
+ * The feed is disabled (always false) while the variable is unset.
+ */
+export function isValidFeedToken(presented: string | null) {
+  const expected = process.env.BLOCKLIST_FEED_TOKEN;
+  if (!expected || !presented) return false;
+  const digest = (s: string) => createHash("sha256").update(s).digest();
+  return timingSafeEqual(digest(presented), digest(expected));
+}
+
+export function isIpsetName(name: string) {
+  return IPSET_NAME_RE.test(name);
+}
+
+/**
+ * Addresses and ranges to block, canonical, deduplicated and sorted.
+ * Simulated decisions and scopes other than Ip/Range are left out.
+ */
+export function blocklistEntries(
+  decisions: Decision[],
+  filters: BlocklistFilters
+) {
+  const eq = (a: string, b: string | undefined) =>
+    b === undefined || a.toLowerCase() === b.toLowerCase();
+  const seen = new Map<string, Cidr>();
+  for (const d of decisions) {
+    if (d.simulated) continue;
+    if (d.scope !== "Ip" && d.scope !== "Range") continue;
+    if (!eq(d.type, filters.type) || !eq(d.origin, filters.origin)) continue;
+    if (!eq(d.scope, filters.scope)) continue;
+    const cidr = parseIpOrCidr(d.value);
+    if (cidr) seen.set(formatCidr(cidr), cidr);
+  }
+  return [...seen.entries()]
+    .sort(
+      ([, a], [, b]) =>
+        a.version - b.version ||
+        (a.value < b.value ? -1 : a.value > b.value ? 1 : 0) ||
+        a.prefix - b.prefix
+    )
+    .map(([text, cidr]) => ({ text, version: cidr.version }));
+}
+
+type RenderOptions = {
+  type: string;
+  ipsetName?: string;
+  generatedAt?: Date;
+};
+
+export function renderBlocklist(
+  format: BlocklistFormat,
+  entries: { text: string; version: IpVersion }[],
+  {
+    type,
+    ipsetName = DEFAULT_IPSET_NAME,
+    generatedAt = new Date(),
+  }: RenderOptions
+) {
+  const header = `# ${entries.length} ${type} entries, generated ${generatedAt.toISOString()}\n`;
+  const lines = (f: (text: string) => string, list = entries) =>
+    list.map((e) => `${f(e.text)}\n`).join("");
+
+  switch (format) {
+    case "plain":
+      return header + lines((ip) => ip);
+    case "nginx":
+      return header + lines((ip) => `deny ${ip};`);
+    case "haproxy":
+      // Map file for `map_ip`, e.g. http-request deny if { src,map_ip(...) -m found }
+      return header + lines((ip) => `${ip} ${type}`);
+    case "ipset": {
+      // `ipset restore` input; each family needs its own set
+      const sets = [
+        { name: ipsetName, family: "inet", version: 4 },
+        { name: `${ipsetName}-v6`, family: "inet6", version: 6 },
+      ];
+      return (
+        header +
+        sets
+          .map(({ name, family, version }) => {
+            const members = entries.filter((e) => e.version === version);
+            const maxelem = Math.max(65536, members.length);
+            return (
+              `create ${name} hash:net family ${family} maxelem ${maxelem} -exist\n` +
+              `flush ${name}\n` +
+              lines((ip) => `add ${name} ${ip} -exist`, members)
+            );
+          })
+          .join("")
+      );
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Minimal RFC 4180 CSV helpers: quoted fields, doubled quotes and CRLF or
+ * LF line endings.
+ */
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function escapeField(value: unknown) {
+  const text = value === null || value === undefined ? "" : String(value);
+  // Leading =, +, - or @ would be evaluated as a formula by spreadsheets
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsvRow(values: unknown[]) {
+  return `${values.map(escapeField).join(",")}\r\n`;
+}
+
+export function toCsv(header: string[], rows: unknown[][]) {
+  return [header, ...rows].map(toCsvRow).join("");
+}
@@ -1,44 +1,134 @@
+import type { RefreshErrorResponse, RefreshResponse } from "@/lib/models";
+
 /**
- * Custom fetch wrapper that handles 401 responses by redirecting to login
+ * Custom fetch wrapper for the dashboard's API routes. A 401 triggers a
+ * session refresh and one retry; concurrent calls that hit 401 share the
+ * same refresh. Only a session that can't be refreshed redirects to login.
  */
 
+export type RefreshOutcome =
+  | { ok: true; refreshed: boolean; expiresAt: string | null }
+  // `expired`: the session is over; otherwise the refresh may work later
+  | { ok: false; expired: boolean; error: string };
+
 let isRedirecting = false;
+let refreshInFlight: Promise<RefreshOutcome> | null = null;
+const refreshListeners = new Set<(outcome: RefreshOutcome) => void>();
+
+async function requestRefresh(): Promise<RefreshOutcome> {
+  try {
+    const res = await fetch("/api/refresh", {
+      method: "POST",
+      credentials: "include",
+    });
+    // A redirect to the login page or an HTML error page is no answer
+    if (res.redirected) {
+      return { ok: false, expired: true, error: "Your session has ended" };
+    }
+    const data = await res.json().catch(() => null);
+    if (!data || typeof data !== "object") {
+      return {
+        ok: false,
+        expired: false,
+        error: `Session refresh failed (status ${res.status})`,
+      };
+    }
+    if (res.ok) {
+      const { refreshed, expiresAt } = data as RefreshResponse;
+      return { ok: true, refreshed: !!refreshed, expiresAt: expiresAt ?? null };
+    }
+    const { error, code } = data as Partial<RefreshErrorResponse>;
+    return {
+      ok: false,
+      expired: res.status === 401 || code === "session_expired",
+      error: error || `Session refresh failed (status ${res.status})`,
+    };
+  } catch (err) {
+    console.error("[AUTH_FETCH] Refresh error:", err);
+    return {
+      ok: false,
+      expired: false,
+      error: "Could not reach the server to refresh the session",
+    };
+  }
+}
+
+/**
+ * Refresh the session tokens. Callers arriving while a refresh is running
+ * get its outcome instead of starting another one; every outcome is also
+ * passed to the listeners registered with `onRefresh`.
+ */
+export function refreshSession(): Promise<RefreshOutcome> {
+  if (!refreshInFlight) {
+    refreshInFlight = requestRefresh().then((outcome) => {
+      refreshInFlight = null;
+      refreshListeners.forEach((listener) => listener(outcome));
+      return outcome;
+    });
+  }
+  return refreshInFlight;
+}
+
+export function onRefresh(listener: (outcome: RefreshOutcome) => void) {
+  refreshListeners.add(listener);
+  return () => {
+    refreshListeners.delete(listener);
+  };
+}
+
+/**
+ * Leave for the login page, at most once per page load
+ */
+export async function redirectToLogin(reason = "session_expired") {
+  if (isRedirecting || typeof window === "undefined") return;
+  isRedirecting = true;
+  console.log("[AUTH_FETCH] Redirecting to login:", reason);
+
+  // Clear any existing auth state
+  try {
+    await fetch("/api/logout", {
+      method: "POST",
+      credentials: "include",
+    });
+  } catch (err) {
+    console.error("[AUTH_FETCH] Logout error:", err);
+  }
+
+  // Redirect to login with reason
+  const currentPath = window.location.pathname;
+  window.location.href = `/login?reason=${reason}&next=${encodeURIComponent(
+    currentPath
+  )}`;
+}
 
 export async function authFetch(
   input: RequestInfo | URL,
   init?: RequestInit
 ): Promise<Response> {
-  const response = await fetch(input, {
-    ...init,
-    credentials: init?.credentials || "include",
-  });
-
-  // If we get a 401, redirect to login (session expired)
-  if (response.status === 401 && !isRedirecting) {
-    isRedirecting = true;
-    console.log("[AUTH_FETCH] 401 response, redirecting to login");
-
-    // Check if we're in the browser
-    if (typeof window !== "undefined") {
-      // Clear any existing auth state
-      try {
-        await fetch("/api/logout", {
-          method: "POST",
-          credentials: "include",
-        });
-      } catch (err) {
-        console.error("[AUTH_FETCH] Logout error:", err);
-      }
-
-      // Redirect to login with reason
-      const currentPath = window.location.pathname;
-      const redirectUrl = `/login?reason=session_expired&next=${encodeURIComponent(
-        currentPath
-      )}`;
-      window.location.href = redirectUrl;
-    }
+  const send = () =>
+    fetch(input, {
+      ...init,
+      credentials: init?.credentials || "include",
+    });
+
+  const response = await send();
+  if (response.status !== 401 || isRedirecting) return response;
+
+  console.log("[AUTH_FETCH] 401 response, refreshing session");
+  const outcome = await refreshSession();
+  if (outcome.ok && outcome.refreshed) {
+    // Request bodies are JSON strings, so the request can be sent again
+    const retried = await send();
+    if (retried.status !== 401) return retried;
+    await redirectToLogin();
+    return retried;
   }
+  // Upstream couldn't refresh right now: the session may still be valid, and
+  // the onRefresh listeners report the failure
+  if (!outcome.ok && !outcome.expired) return response;
 
+  // Refresh is off and the token ran out, or the session itself has ended
+  await redirectToLogin(outcome.ok ? "token_expired" : "session_expired");
   return response;
 }
 
@@ -0,0 +1,202 @@
+/**
+ * IPv4 / IPv6 address and CIDR helpers shared by the API routes and pages.
+ * Addresses are handled as bigints so both families use the same math.
+ */
+
+export type IpVersion = 4 | 6;
+
+export type IpAddress = {
+  version: IpVersion;
+  value: bigint;
+};
+
+function parseIpv4(text: string): bigint | null {
+  const parts = text.split(".");
+  if (parts.length !== 4) return null;
+  let value = BigInt(0);
+  for (const part of parts) {
+    // Reject empty, signed and zero-padded octets ("01" is ambiguous)
+    if (!/^\d{1,3}$/.test(part) || (part.length > 1 && part[0] === "0")) {
+      return null;
+    }
+    const n = Number(part);
+    if (n > 255) return null;
+    value = (value << BigInt(8)) | BigInt(n);
+  }
+  return value;
+}
+
+function parseIpv6(text: string): bigint | null {
+  let head = text;
+  let tail: number[] = [];
+
+  // Trailing embedded IPv4, e.g. ::ffff:192.0.2.1
+  const lastColon = text.lastIndexOf(":");
+  if (text.includes(".", lastColon)) {
+    const v4 = parseIpv4(text.slice(lastColon + 1));
+    if (v4 === null) return null;
+    tail = [Number(v4 >> BigInt(16)), Number(v4 & BigInt(0xffff))];
+    head = text.slice(0, lastColon + 1);
+    // Keep "::" intact when the IPv4 part directly follows it
+    if (!head.endsWith("::")) head = head.slice(0, -1);
+  }
+
+  const halves = head.split("::");
+  if (halves.length > 2) return null;
+  const toGroups = (s: string) => (s === "" ? [] : s.split(":"));
+  const left = toGroups(halves[0]);
+  const right = halves.length === 2 ? toGroups(halves[1]) : [];
+  const explicit = left.length + right.length + tail.length;
+
+  let groups: string[];
+  if (halves.length === 2) {
+    if (explicit > 7) return null;
+    groups = [
+      ...left,
+      ...Array(8 - tail.length - left.length - right.length).fill("0"),
+      ...right,
+    ];
+  } else {
+    if (explicit !== 8) return null;
+    groups = left;
+  }
+
+  let value = BigInt(0);
+  for (const group of groups) {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(group)) return null;
+    value = (value << BigInt(16)) | BigInt(parseInt(group, 16));
+  }
+  for (const group of tail) {
+    value = (value << BigInt(16)) | BigInt(group);
+  }
+  return value;
+}
+
+export function parseIp(text: string): IpAddress | null {
+  const trimmed = text.trim();
+  if (trimmed.includes(":")) {
+    const value = parseIpv6(trimmed);
+    return value === null ? null : { version: 6, value };
+  }
+  const value = parseIpv4(trimmed);
+  return value === null ? null : { version: 4, value };
+}
+
+export function isIp(text: string) {
+  return parseIp(text) !== null;
+}
+
+export type Cidr = IpAddress & {
+  prefix: number;
+};
+
+export function parseCidr(text: string): Cidr | null {
+  const [addr, prefix, ...rest] = text.trim().split("/");
+  if (rest.length > 0 || prefix === undefined || !/^\d{1,3}$/.test(prefix)) {
+    return null;
+  }
+  const ip = parseIp(addr);
+  if (ip === null || Number(prefix) > bitsOf(ip.version)) return null;
+  return { ...ip, prefix: Number(prefix) };
+}
+
+export function isCidr(text: string) {
+  return parseCidr(text) !== null;
+}
+
+function bitsOf(version: IpVersion) {
+  return version === 4 ? 32 : 128;
+}
+
+/**
+ * Whether `inner` (an address or a CIDR range) lies entirely inside the
+ * `outer` range. Host bits set in either range are ignored.
+ */
+export function cidrContains(outer: Cidr, inner: IpAddress | Cidr) {
+  if (outer.version !== inner.version) return false;
+  const innerPrefix = "prefix" in inner ? inner.prefix : bitsOf(inner.version);
+  if (innerPrefix < outer.prefix) return false;
+  const shift = BigInt(bitsOf(outer.version) - outer.prefix);
+  return outer.value >> shift === inner.value >> shift;
+}
+
+/**
+ * An address as a single-host range (/32 or /128), so addresses and ranges
+ * can be handled alike.
+ */
+export function parseIpOrCidr(text: string): Cidr | null {
+  if (text.includes("/")) return parseCidr(text);
+  const ip = parseIp(text);
+  return ip && { ...ip, prefix: bitsOf(ip.version) };
+}
+
+// The range with host bits cleared, e.g. 192.0.2.7/24 -> 192.0.2.0/24
+export function networkOf(cidr: Cidr): Cidr {
+  const shift = BigInt(bitsOf(cidr.version) - cidr.prefix);
+  return { ...cidr, value: (cidr.value >> shift) << shift };
+}
+
+function formatIpv4(value: bigint) {
+  return [24, 16, 8, 0]
+    .map((shift) => String((value >> BigInt(shift)) & BigInt(0xff)))
+    .join(".");
+}
+
+/**
+ * Canonical text form: dotted quad for IPv4, RFC 5952 for IPv6 (lowercase,
+ * no leading zeros, longest run of zero groups compressed).
+ */
+export function formatIp(ip: IpAddress) {
+  if (ip.version === 4) return formatIpv4(ip.value);
+
+  // IPv4-mapped addresses keep the dotted tail, e.g. ::ffff:192.0.2.1
+  if (ip.value >> BigInt(32) === BigInt(0xffff)) {
+    return `::ffff:${formatIpv4(ip.value & BigInt(0xffffffff))}`;
+  }
+
+  const groups = Array.from({ length: 8 }, (_, i) =>
+    Number((ip.value >> BigInt(112 - 16 * i)) & BigInt(0xffff))
+  );
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8;) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map((g) => g.toString(16));
+  if (bestStart === -1) return hex.join(":");
+  const left = hex.slice(0, bestStart).join(":");
+  const right = hex.slice(bestStart + bestLength).join(":");
+  return `${left}::${right}`;
+}
+
+/**
+ * Canonical form of an address or range: host bits cleared and single-host
+ * ranges written as a plain address.
+ */
+export function formatCidr(cidr: Cidr) {
+  const network = networkOf(cidr);
+  return cidr.prefix === bitsOf(cidr.version)
+    ? formatIp(network)
+    : `${formatIp(network)}/${cidr.prefix}`;
+}
+
+// Number of addresses in a range (1 for a single address)
+export function addressCount(cidr: Cidr) {
+  return BigInt(1) << BigInt(bitsOf(cidr.version) - cidr.prefix);
+}
+
+// Whether two ranges share any address (one then contains the other)
+export function cidrOverlaps(a: Cidr, b: Cidr) {
+  return cidrContains(a, b) || cidrContains(b, a);
+}
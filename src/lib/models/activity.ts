@@ -0,0 +1,78 @@
+import { cidrContains, parseIpOrCidr, type Cidr } from "@/lib/ip";
+import { alertTime, type Alert } from "./alert";
+import type { AllowlistEntry } from "./allowlist";
+import type { Decision } from "./decision";
+
+/**
+ * Allowlist hit tracking: when an alert or decision last involved an
+ * address covered by each entry. Used to find entries nobody needs anymore.
+ */
+
+export type AllowlistActivity = {
+  lastSeen: string | null;
+  alerts: number;
+  decisions: number;
+};
+
+function later(a: string | null, b: string | null) {
+  if (!a || !b) return a ?? b;
+  return Date.parse(a) >= Date.parse(b) ? a : b;
+}
+
+// Activity per entry, keyed by entry ip
+export function allowlistActivity(
+  entries: AllowlistEntry[],
+  alerts: Alert[],
+  decisions: Decision[]
+) {
+  const hits = [
+    ...alerts.map((a) => ({
+      kind: "alerts" as const,
+      value: a.source.ip ?? a.source.range,
+      time: alertTime(a),
+    })),
+    ...decisions.map((d) => ({
+      kind: "decisions" as const,
+      value: d.value,
+      time: d.timestamp,
+    })),
+  ]
+    .map((hit) => ({ ...hit, cidr: hit.value && parseIpOrCidr(hit.value) }))
+    .filter((hit): hit is typeof hit & { cidr: Cidr } => !!hit.cidr);
+
+  const out: Record<string, AllowlistActivity> = {};
+  for (const entry of entries) {
+    const range = parseIpOrCidr(entry.ip);
+    const activity: AllowlistActivity = {
+      lastSeen: null,
+      alerts: 0,
+      decisions: 0,
+    };
+    if (range) {
+      for (const hit of hits) {
+        if (!cidrContains(range, hit.cidr)) continue;
+        activity[hit.kind]++;
+        activity.lastSeen = later(activity.lastSeen, hit.time);
+      }
+    }
+    out[entry.ip] = activity;
+  }
+  return out;
+}
+
+/**
+ * Entries with no activity in the last `days` days. Entries added within
+ * that period are never stale, they haven't had the chance to be hit.
+ */
+export function findStaleAllowlistEntries(
+  entries: AllowlistEntry[],
+  activity: Record<string, AllowlistActivity>,
+  days: number,
+  now = Date.now()
+) {
+  const cutoff = now - days * 24 * 3600 * 1000;
+  const before = (time: string | null) => !time || Date.parse(time) < cutoff;
+  return entries.filter(
+    (e) => before(e.createdAt) && before(activity[e.ip]?.lastSeen ?? null)
+  );
+}
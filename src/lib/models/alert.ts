@@ -0,0 +1,120 @@
+import { parseDecision, type Decision } from "./decision";
+import {
+  asRecord,
+  readArray,
+  readBoolean,
+  readMeta,
+  readNumber,
+  readString,
+  type SchemaContext,
+} from "./schema";
+
+export type AlertSource = {
+  scope: string | null;
+  value: string | null;
+  // Resolved from source.ip, source.value, then the first decision value
+  ip: string | null;
+  range: string | null;
+  asNumber: string | null;
+  asName: string | null;
+  country: string | null;
+};
+
+export type AlertEvent = {
+  timestamp: string | null;
+  meta: Record<string, string>;
+};
+
+export type Alert = {
+  id: number;
+  scenario: string;
+  message: string;
+  startAt: string | null;
+  stopAt: string | null;
+  createdAt: string | null;
+  eventsCount: number;
+  simulated: boolean;
+  // Security engine that raised the alert
+  machine: string | null;
+  source: AlertSource;
+  events: AlertEvent[];
+  meta: Record<string, string>;
+  decisions: Decision[];
+};
+
+function parseEvent(
+  raw: unknown,
+  ctx: SchemaContext,
+  path: string
+): AlertEvent | null {
+  const rec = asRecord(raw, ctx, path);
+  if (!rec) return null;
+  return {
+    timestamp: readString(rec, "timestamp", ctx, path),
+    meta: readMeta(rec, "meta", ctx, path),
+  };
+}
+
+export function parseAlert(
+  raw: unknown,
+  ctx: SchemaContext,
+  path: string
+): Alert | null {
+  const rec = asRecord(raw, ctx, path);
+  if (!rec) return null;
+  const id = readNumber(rec, "id", ctx, path, { required: true });
+  if (id === null) return null;
+
+  const events = readArray(rec, "events", ctx, path)
+    .map((e, i) => parseEvent(e, ctx, `${path}.events[${i}]`))
+    .filter((e): e is AlertEvent => e !== null);
+  const decisions = readArray(rec, "decisions", ctx, path)
+    .map((d, i) => parseDecision(d, ctx, `${path}.decisions[${i}]`))
+    .filter((d): d is Decision => d !== null);
+
+  // Enrichment is on `source` for LAPI alerts but only in event meta for
+  // some older agents, so fall back to the first event.
+  const firstMeta = events[0]?.meta ?? {};
+  const src = asRecord(rec.source, ctx, `${path}.source`, { required: false });
+  const srcPath = `${path}.source`;
+  const sourceValue = readString(src, "value", ctx, srcPath);
+
+  return {
+    id,
+    scenario: readString(rec, "scenario", ctx, path, { required: true }) ?? "",
+    message: readString(rec, "message", ctx, path) ?? "",
+    startAt: readString(rec, "start_at", ctx, path),
+    stopAt: readString(rec, "stop_at", ctx, path),
+    createdAt: readString(rec, "created_at", ctx, path),
+    eventsCount: readNumber(rec, "events_count", ctx, path) ?? events.length,
+    simulated: readBoolean(rec, "simulated", ctx, path),
+    machine: firstMeta.machine || readString(rec, "machine_id", ctx, path),
+    source: {
+      scope: readString(src, "scope", ctx, srcPath),
+      value: sourceValue,
+      ip:
+        readString(src, "ip", ctx, srcPath) ||
+        sourceValue ||
+        decisions[0]?.value ||
+        null,
+      range: readString(src, "range", ctx, srcPath),
+      asNumber:
+        readString(src, "as_number", ctx, srcPath) ||
+        firstMeta.ASNNumber ||
+        null,
+      asName:
+        readString(src, "as_name", ctx, srcPath) || firstMeta.ASNOrg || null,
+      country: readString(src, "cn", ctx, srcPath) || firstMeta.IsoCode || null,
+    },
+    events,
+    meta: readMeta(rec, "meta", ctx, path),
+    decisions,
+  };
+}
+
+/**
+ * Timestamp used to place an alert on a timeline (last event, else first).
+ */
+export function alertTime(alert: Alert): string | null {
+  return alert.stopAt || alert.startAt || alert.createdAt;
+}
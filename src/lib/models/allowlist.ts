@@ -0,0 +1,343 @@
+import { parseCsv } from "@/lib/csv";
+import {
+  cidrContains,
+  formatCidr,
+  networkOf,
+  parseIpOrCidr,
+  type Cidr,
+} from "@/lib/ip";
+import { durationSeconds } from "./decision";
+import { asRecord, readString, type SchemaContext } from "./schema";
+
+export type AllowlistEntry = {
+  ip: string;
+  reason: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  // Set for temporary entries; removed by the expiry sweep once past
+  expiresAt: string | null;
+  // Id of the named list holding the entry
+  group: string;
+  // Free-form labels kept locally, e.g. "vpn", "monitoring"
+  tags: string[];
+};
+
+export function parseAllowlistEntry(
+  raw: unknown,
+  ctx: SchemaContext,
+  path: string
+): AllowlistEntry | null {
+  const rec = asRecord(raw, ctx, path);
+  if (!rec) return null;
+  const ip = readString(rec, "ip", ctx, path, { required: true });
+  if (!ip) return null;
+  return {
+    ip,
+    reason: readString(rec, "reason", ctx, path) || null,
+    createdAt: readString(rec, "created_at", ctx, path),
+    updatedAt: readString(rec, "updated_at", ctx, path),
+    expiresAt: readString(rec, "expires_at", ctx, path),
+    group: DEFAULT_ALLOWLIST_GROUP,
+    tags: [],
+  };
+}
+
+// Upstream keeps one flat allowlist; named lists are a local grouping on
+// top of it. Entries not assigned to a list belong to the default one.
+export const DEFAULT_ALLOWLIST_GROUP = "default";
+
+export type AllowlistGroup = {
+  id: string;
+  name: string;
+  description: string | null;
+  owner: string | null;
+  createdAt: string | null;
+};
+
+export type AllowlistGroupFields = Pick<
+  AllowlistGroup,
+  "name" | "description" | "owner"
+>;
+
+/**
+ * Validate the editable fields of a named allowlist. Shared by the list
+ * form and the groups routes.
+ */
+export function validateAllowlistGroup(
+  input: Partial<Record<keyof AllowlistGroupFields, unknown>>
+): { group: AllowlistGroupFields; error?: undefined } | { error: string } {
+  const text = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+  const name = text(input.name);
+  const description = text(input.description);
+  const owner = text(input.owner);
+
+  if (!name) return { error: "A list name is required" };
+  if (name.length > 64) {
+    return { error: "List name must be at most 64 characters" };
+  }
+  if (description.length > 255) {
+    return { error: "Description must be at most 255 characters" };
+  }
+  if (owner.length > 128) {
+    return { error: "Owner must be at most 128 characters" };
+  }
+  return {
+    group: { name, description: description || null, owner: owner || null },
+  };
+}
+
+/**
+ * Validate an allowlist address or CIDR range and return its canonical
+ * form. Shared by the add form and POST /api/allowlist.
+ */
+export function validateAllowlistIp(
+  input: unknown
+): { ip: string; error?: undefined } | { error: string } {
+  const text = typeof input === "string" ? input.trim() : "";
+  if (!text) return { error: "IP address or range is required" };
+  const cidr = parseIpOrCidr(text);
+  if (!cidr) {
+    return {
+      error: "Enter an IPv4/IPv6 address or a CIDR range such as 192.0.2.0/24",
+    };
+  }
+  return { ip: formatCidr(cidr) };
+}
+
+export type AllowlistOverlap = {
+  kind: "duplicate" | "covered";
+  // The entry that makes this one redundant
+  by: string;
+};
+
+/**
+ * Find entries that repeat or fall inside another entry, keyed by the
+ * redundant entry's `ip`. CIDR ranges are either nested or disjoint, so a
+ * sorted sweep with a stack of enclosing ranges finds every case.
+ */
+export function findAllowlistOverlaps(entries: AllowlistEntry[]) {
+  const ranges = entries
+    .map((entry) => {
+      const cidr = parseIpOrCidr(entry.ip);
+      return cidr && { ip: entry.ip, cidr: networkOf(cidr) };
+    })
+    .filter((r): r is { ip: string; cidr: Cidr } => r !== null)
+    .sort(
+      (a, b) =>
+        a.cidr.version - b.cidr.version ||
+        (a.cidr.value < b.cidr.value
+          ? -1
+          : a.cidr.value > b.cidr.value
+            ? 1
+            : 0) ||
+        a.cidr.prefix - b.cidr.prefix
+    );
+
+  const overlaps: Record<string, AllowlistOverlap> = {};
+  const stack: { ip: string; cidr: Cidr }[] = [];
+  for (const range of ranges) {
+    while (
+      stack.length &&
+      !cidrContains(stack[stack.length - 1].cidr, range.cidr)
+    ) {
+      stack.pop();
+    }
+    const outer = stack[stack.length - 1];
+    if (outer) {
+      overlaps[range.ip] = {
+        kind: outer.cidr.prefix === range.cidr.prefix ? "duplicate" : "covered",
+        by: outer.ip,
+      };
+    }
+    stack.push(range);
+  }
+  return overlaps;
+}
+
+// Longest temporary allowlisting accepted, one year
+const MAX_EXPIRY_SECONDS = 365 * 24 * 3600;
+
+/**
+ * Turn an optional "expires in" duration such as "24h", "7d" or "1h30m" into an
+ * absolute expiry time. An empty value means the entry never expires.
+ */
+export function validateAllowlistExpiry(
+  input: unknown,
+  now = Date.now()
+): { expiresAt: string | null; error?: undefined } | { error: string } {
+  const text = typeof input === "string" ? input.trim() : "";
+  if (!text) return { expiresAt: null };
+  // Go units plus whole days, which spreadsheets tend to use
+  const match = /^(?:(\d+)d)?((?:\d+[hms])*)$/.exec(text);
+  const seconds = match
+    ? Number(match[1] || 0) * 86400 + (durationSeconds(match[2] || "0s") ?? 0)
+    : 0;
+  if (!seconds) {
+    return { error: "Expiry must be a duration such as 24h, 7d or 1h30m" };
+  }
+  if (seconds > MAX_EXPIRY_SECONDS) {
+    return { error: "Expiry can be at most one year" };
+  }
+  return { expiresAt: new Date(now + seconds * 1000).toISOString() };
+}
+
+export type AllowlistExpiry = {
+  ip: string;
+  reason: string | null;
+  expiresAt: string;
+  removedAt: string;
+};
+
+export type AllowlistImportRow = {
+  // 1-based line in the pasted text or file
+  line: number;
+  input: string;
+  status: "valid" | "invalid" | "duplicate";
+  ip: string | null;
+  reason: string | null;
+  expiresIn: string | null;
+  message: string | null;
+};
+
+/**
+ * Parse pasted or uploaded allowlist rows for the import preview. Accepts
+ * CSV with `ip,reason,expires_in` columns (header optional) or one address
+ * per line; blank lines and `#` comments are skipped. Rows already on the
+ * allowlist, or repeated in the input, are marked as duplicates.
+ */
+export function parseAllowlistImport(
+  text: string,
+  existing: AllowlistEntry[]
+): AllowlistImportRow[] {
+  const rows = parseCsv(text);
+  const canonical = (ip: string) => {
+    const validated = validateAllowlistIp(ip);
+    return validated.error === undefined ? validated.ip : ip;
+  };
+  const seen = new Set(existing.map((e) => canonical(e.ip)));
+  const header = rows[0]?.map((h) => h.trim().toLowerCase());
+  const hasHeader = header?.[0] === "ip";
+  const column = (name: string, fallback: number) =>
+    hasHeader ? (header as string[]).indexOf(name) : fallback;
+  const ipCol = column("ip", 0);
+  const reasonCol = column("reason", 1);
+  const expiryCol = column("expires_in", 2);
+
+  const out: AllowlistImportRow[] = [];
+  rows.forEach((cells, i) => {
+    if (hasHeader && i === 0) return;
+    const raw = (cells[ipCol] ?? "").trim();
+    if (!raw || raw.startsWith("#")) return;
+    const reason = (cells[reasonCol] ?? "").trim() || null;
+    const expiresIn = (cells[expiryCol] ?? "").trim() || null;
+    const row = { line: i + 1, input: cells.join(","), reason, expiresIn };
+
+    const validated = validateAllowlistIp(raw);
+    if (validated.error !== undefined) {
+      out.push({
+        ...row,
+        status: "invalid",
+        ip: null,
+        message: validated.error,
+      });
+      return;
+    }
+    const expiry = validateAllowlistExpiry(expiresIn);
+    if (expiry.error !== undefined) {
+      out.push({
+        ...row,
+        status: "invalid",
+        ip: validated.ip,
+        message: expiry.error,
+      });
+      return;
+    }
+    if (seen.has(validated.ip)) {
+      out.push({
+        ...row,
+        status: "duplicate",
+        ip: validated.ip,
+        message: "Already on the allowlist or earlier in the import",
+      });
+      return;
+    }
+    seen.add(validated.ip);
+    out.push({ ...row, status: "valid", ip: validated.ip, message: null });
+  });
+  return out;
+}
+
+export type AllowlistImportResult = {
+  ip: string;
+  status: "added" | "error";
+  error?: string;
+};
+
+const TAG_RE = /^[\w.:-]{1,32}$/;
+const MAX_TAGS = 10;
+
+/**
+ * Validate entry tags given as an array or a comma/space separated string.
+ * Tags are lowercased and deduplicated.
+ */
+export function validateAllowlistTags(
+  input: unknown
+): { tags: string[]; error?: undefined } | { error: string } {
+  const raw = Array.isArray(input)
+    ? input.map(String)
+    : typeof input === "string"
+      ? input.split(/[\s,]+/)
+      : [];
+  const tags = [
+    ...new Set(raw.map((t) => t.trim().toLowerCase()).filter(Boolean)),
+  ];
+  const bad = tags.find((t) => !TAG_RE.test(t));
+  if (bad !== undefined) {
+    return {
+      error: `Invalid tag "${bad}": use letters, digits, ".", ":", "-" or "_"`,
+    };
+  }
+  if (tags.length > MAX_TAGS) {
+    return { error: `At most ${MAX_TAGS} tags per entry` };
+  }
+  return { tags };
+}
+
+export type AllowlistEntryUpdate = {
+  reason?: string | null;
+  tags?: string[];
+  expiresAt?: string | null;
+};
+
+/**
+ * Validate an in-place edit of an entry. Fields left out are kept; an empty
+ * reason clears it and an empty `expiresIn` makes the entry permanent.
+ */
+export function validateAllowlistEntryUpdate(
+  input: { reason?: unknown; tags?: unknown; expiresIn?: unknown },
+  now = Date.now()
+): { update: AllowlistEntryUpdate; error?: undefined } | { error: string } {
+  const update: AllowlistEntryUpdate = {};
+
+  if (input.reason !== undefined) {
+    const reason = typeof input.reason === "string" ? input.reason.trim() : "";
+    if (reason.length > 255) {
+      return { error: "Reason must be at most 255 characters" };
+    }
+    update.reason = reason || null;
+  }
+  if (input.tags !== undefined) {
+    const validated = validateAllowlistTags(input.tags);
+    if (validated.error !== undefined) return validated;
+    update.tags = validated.tags;
+  }
+  if (input.expiresIn !== undefined) {
+    const expiry = validateAllowlistExpiry(input.expiresIn ?? "", now);
+    if (expiry.error !== undefined) return expiry;
+    update.expiresAt = expiry.expiresAt;
+  }
+  if (Object.keys(update).length === 0) {
+    return { error: "Nothing to update: set a reason, tags or an expiry" };
+  }
+  return { update };
+}
@@ -0,0 +1,129 @@
+/**
+ * Operator audit trail: one record per mutating proxy call, written by the
+ * routes and read by the Audit page.
+ */
+
+export const AUDIT_ACTIONS = [
+  "decision.create",
+  "decision.update",
+  "decision.delete",
+  "decision.bulk_delete",
+  "decision.delete_by_filter",
+  "decision.import",
+  "alert.delete",
+  "alert.bulk_delete",
+  "alert.purge",
+  "allowlist.add",
+  "allowlist.update",
+  "allowlist.remove",
+  "allowlist.import",
+  "allowlist.expire",
+  "allowlist.move",
+  "allowlist_group.create",
+  "allowlist_group.update",
+  "allowlist_group.delete",
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditResult = {
+  ok: boolean;
+  // HTTP status the route answered with, or the upstream status on failure
+  status: number | null;
+  error: string | null;
+};
+
+export type AuditRecord = {
+  // Increasing sequence number, also the pagination cursor
+  id: number;
+  timestamp: string;
+  actor: string;
+  clientIp: string | null;
+  action: AuditAction;
+  // What was acted on: an id, an address, a filter query, ...
+  target: string;
+  before: unknown;
+  after: unknown;
+  result: AuditResult;
+  requestId: string | null;
+};
+
+export type AuditFilters = {
+  actor?: string;
+  action?: AuditAction;
+  // Substring of the target
+  target?: string;
+  // ISO dates, inclusive
+  from?: string;
+  to?: string;
+  failedOnly?: boolean;
+};
+
+export function auditFiltersToQuery(
+  filters: AuditFilters,
+  query = new URLSearchParams()
+) {
+  for (const key of ["actor", "action", "target", "from", "to"] as const) {
+    const value = filters[key];
+    if (value) query.set(key, value);
+  }
+  if (filters.failedOnly) query.set("failed", "true");
+  return query;
+}
+
+export function auditFiltersFromQuery(
+  query: URLSearchParams
+): { filters: AuditFilters; error?: undefined } | { error: string } {
+  const filters: AuditFilters = {};
+  const get = (key: string) => query.get(key)?.trim() || undefined;
+
+  for (const key of ["actor", "target"] as const) {
+    const value = get(key);
+    if (value === undefined) continue;
+    if (value.length > 128) {
+      return { error: `${key} must be at most 128 characters` };
+    }
+    filters[key] = value;
+  }
+
+  const action = get("action");
+  if (action !== undefined) {
+    if (!AUDIT_ACTIONS.includes(action as AuditAction)) {
+      return { error: "action is not a known audit action" };
+    }
+    filters.action = action as AuditAction;
+  }
+
+  for (const key of ["from", "to"] as const) {
+    const value = get(key);
+    if (value === undefined) continue;
+    if (Number.isNaN(Date.parse(value))) {
+      return { error: `${key} must be a date` };
+    }
+    filters[key] = value;
+  }
+
+  if (get("failed") === "true") filters.failedOnly = true;
+  return { filters };
+}
+
+export function matchesAuditFilters(
+  record: AuditRecord,
+  filters: AuditFilters
+) {
+  const contains = (a: string, b: string | undefined) =>
+    b === undefined || a.toLowerCase().includes(b.toLowerCase());
+  if (!contains(record.actor, filters.actor)) return false;
+  if (!contains(record.target, filters.target)) return false;
+  if (filters.action && record.action !== filters.action) return false;
+  if (filters.failedOnly && record.result.ok) return false;
+  const time = Date.parse(record.timestamp);
+  if (filters.from && time < Date.parse(filters.from)) return false;
+  // A bare date as `to` covers that whole day
+  if (filters.to) {
+    const end = /^\d{4}-\d{2}-\d{2}$/.test(filters.to)
+      ? Date.parse(filters.to) + 24 * 3600 * 1000
+      : Date.parse(filters.to) + 1;
+    if (time >= end) return false;
+  }
+  return true;
+}
@@ -0,0 +1,120 @@
+import {
+  cidrContains,
+  cidrOverlaps,
+  formatCidr,
+  parseIpOrCidr,
+  type Cidr,
+} from "@/lib/ip";
+import type { AllowlistEntry } from "./allowlist";
+import type { Decision } from "./decision";
+
+/**
+ * Partner blocklists imported as decisions. Files are plain text with one or
+ * more addresses or CIDR ranges per line; `#` and `;` start comments, which
+ * covers most published list formats (Spamhaus DROP, FireHOL, ...).
+ */
+
+export type BlocklistImportStatus =
+  | "new"
+  | "invalid"
+  | "duplicate"
+  | "allowlisted"
+  | "exists"
+  | "created"
+  | "error";
+
+export type BlocklistImportRow = {
+  // 1-based line in the file
+  line: number;
+  input: string;
+  // Canonical address or range; null when the input isn't one
+  value: string | null;
+  scope: "Ip" | "Range" | null;
+  status: BlocklistImportStatus;
+  detail: string | null;
+};
+
+/**
+ * Split a blocklist file into one row per token and sort out what would be
+ * created: invalid tokens, repeats within the file, values overlapping an
+ * allowlist entry, and values an active decision already covers are all
+ * skipped.
+ */
+export function classifyBlocklistImport(
+  text: string,
+  {
+    allowlist,
+    decisions,
+  }: { allowlist: AllowlistEntry[]; decisions: Decision[] }
+): BlocklistImportRow[] {
+  const allowed = allowlist
+    .map((e) => ({ ip: e.ip, cidr: parseIpOrCidr(e.ip) }))
+    .filter((e): e is { ip: string; cidr: Cidr } => e.cidr !== null);
+  // Decision lists can be large: single addresses are looked up by value,
+  // only ranges are scanned
+  const blockedIps = new Map<string, Decision>();
+  const blockedRanges: { decision: Decision; cidr: Cidr }[] = [];
+  for (const decision of decisions) {
+    const cidr = parseIpOrCidr(decision.value);
+    if (!cidr || (decision.scope !== "Ip" && decision.scope !== "Range")) {
+      continue;
+    }
+    const value = formatCidr(cidr);
+    if (value.includes("/")) blockedRanges.push({ decision, cidr });
+    else if (!blockedIps.has(value)) blockedIps.set(value, decision);
+  }
+  const seen = new Set<string>();
+
+  const rows: BlocklistImportRow[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const content = raw.replace(/[#;].*$/, "").trim();
+    if (!content) return;
+    for (const input of content.split(/[\s,]+/)) {
+      const row = { line: i + 1, input };
+      const cidr = parseIpOrCidr(input);
+      if (!cidr) {
+        rows.push({
+          ...row,
+          value: null,
+          scope: null,
+          status: "invalid",
+          detail: "Not an IP address or CIDR range",
+        });
+        continue;
+      }
+      const value = formatCidr(cidr);
+      const scope = value.includes("/") ? "Range" : "Ip";
+      const push = (status: BlocklistImportStatus, detail: string | null) =>
+        rows.push({ ...row, value, scope, status, detail });
+
+      if (seen.has(value)) {
+        push("duplicate", "Repeated earlier in the file");
+        continue;
+      }
+      seen.add(value);
+      const allow = allowed.find((e) => cidrOverlaps(e.cidr, cidr));
+      if (allow) {
+        push("allowlisted", `Overlaps allowlist entry ${allow.ip}`);
+        continue;
+      }
+      const existing =
+        blockedIps.get(value) ??
+        blockedRanges.find((d) => cidrContains(d.cidr, cidr))?.decision;
+      if (existing) {
+        push(
+          "exists",
+          `Covered by ${existing.type} decision #${existing.id} on ${existing.value}`
+        );
+        continue;
+      }
+      push("new", null);
+    }
+  });
+  return rows;
+}
+
+export function countBlocklistImport(rows: BlocklistImportRow[]) {
+  const counts: Partial<Record<BlocklistImportStatus, number>> = {};
+  for (const row of rows) counts[row.status] = (counts[row.status] ?? 0) + 1;
+  return counts;
+}
@@ -0,0 +1,45 @@
+import { cidrOverlaps, parseIpOrCidr, type Cidr } from "@/lib/ip";
+import type { AllowlistEntry } from "./allowlist";
+import type { Decision } from "./decision";
+
+/**
+ * Conflicts between the allowlist and active decisions: a decision on an
+ * allowlisted address, on a range containing one, or on an address inside
+ * an allowlisted range. Only Ip and Range decisions can conflict.
+ */
+
+function parsed<T>(items: T[], valueOf: (item: T) => string) {
+  return items
+    .map((item) => ({ item, cidr: parseIpOrCidr(valueOf(item)) }))
+    .filter((p): p is { item: T; cidr: Cidr } => p.cidr !== null);
+}
+
+// Active decisions overlapping each allowlist entry, keyed by entry ip
+export function decisionsByAllowlistEntry(
+  entries: AllowlistEntry[],
+  decisions: Decision[]
+) {
+  const ranges = parsed(decisions, (d) => d.value);
+  const out: Record<string, Decision[]> = {};
+  for (const { item: entry, cidr } of parsed(entries, (e) => e.ip)) {
+    const matches = ranges
+      .filter((d) => cidrOverlaps(cidr, d.cidr))
+      .map((d) => d.item);
+    if (matches.length > 0) out[entry.ip] = matches;
+  }
+  return out;
+}
+
+// The allowlist entry covering each decision, keyed by decision id
+export function allowlistEntryByDecision(
+  decisions: Decision[],
+  entries: AllowlistEntry[]
+) {
+  const ranges = parsed(entries, (e) => e.ip);
+  const out: Record<number, string> = {};
+  for (const { item: decision, cidr } of parsed(decisions, (d) => d.value)) {
+    const entry = ranges.find((e) => cidrOverlaps(e.cidr, cidr));
+    if (entry) out[decision.id] = entry.item.ip;
+  }
+  return out;
+}
@@ -0,0 +1,246 @@
+import { isCidr, isIp } from "@/lib/ip";
+import {
+  asRecord,
+  readBoolean,
+  readNumber,
+  readString,
+  type SchemaContext,
+} from "./schema";
+
+export type DecisionType = "ban" | "captcha" | "throttle";
+
+export type Decision = {
+  id: number;
+  type: string;
+  value: string;
+  scope: string;
+  origin: string;
+  scenario: string;
+  // Reason given when the decision was created by hand, if upstream keeps it
+  reason: string | null;
+  // Go duration string as reported upstream, e.g. "3h59m12s"
+  duration: string;
+  until: string | null;
+  simulated: boolean;
+  isoCode: string | null;
+  asnNumber: string | null;
+  asnOrg: string | null;
+  timestamp: string | null;
+};
+
+export function parseDecision(
+  raw: unknown,
+  ctx: SchemaContext,
+  path: string
+): Decision | null {
+  const rec = asRecord(raw, ctx, path);
+  if (!rec) return null;
+  const id = readNumber(rec, "id", ctx, path, { required: true });
+  const value = readString(rec, "value", ctx, path, { required: true });
+  if (id === null || value === null) return null;
+
+  // Enrichment lives under `metadata` on the decisions endpoint
+  const meta = asRecord(rec.metadata, ctx, `${path}.metadata`, {
+    required: false,
+  });
+  const metaPath = `${path}.metadata`;
+
+  return {
+    id,
+    value,
+    type: readString(rec, "type", ctx, path, { required: true }) ?? "",
+    scope: readString(rec, "scope", ctx, path, { required: true }) ?? "",
+    origin: readString(rec, "origin", ctx, path) ?? "",
+    scenario: readString(rec, "scenario", ctx, path) ?? "",
+    reason: readString(rec, "reason", ctx, path),
+    duration: readString(rec, "duration", ctx, path) ?? "",
+    until: readString(rec, "until", ctx, path),
+    simulated: readBoolean(rec, "simulated", ctx, path),
+    isoCode: readString(meta, "isoCode", ctx, metaPath),
+    asnNumber: readString(meta, "asnNumber", ctx, metaPath),
+    asnOrg: readString(meta, "asnOrg", ctx, metaPath),
+    timestamp: readString(meta, "timestamp", ctx, metaPath),
+  };
+}
+
+export type DecisionTotals = {
+  all: number;
+  simulated: number;
+  byType: Record<string, number>;
+  byCountry: Record<string, number>;
+};
+
+export function summarizeDecisions(decisions: Decision[]): DecisionTotals {
+  const totals: DecisionTotals = {
+    all: decisions.length,
+    simulated: 0,
+    byType: {},
+    byCountry: {},
+  };
+  for (const d of decisions) {
+    if (d.simulated) totals.simulated++;
+    totals.byType[d.type] = (totals.byType[d.type] || 0) + 1;
+    if (d.isoCode) {
+      totals.byCountry[d.isoCode] = (totals.byCountry[d.isoCode] || 0) + 1;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Keyset pagination over decisions, newest (highest id) first. The cursor
+ * is the id of the last row of the previous page, so rows deleted or added
+ * between requests don't shift later pages.
+ */
+export function paginateDecisions(
+  decisions: Decision[],
+  { cursor, limit }: { cursor?: number; limit: number }
+) {
+  const sorted = [...decisions].sort((a, b) => b.id - a.id);
+  const start =
+    cursor === undefined ? 0 : sorted.findIndex((d) => d.id < cursor);
+  const page = start === -1 ? [] : sorted.slice(start, start + limit);
+  const hasMore = start !== -1 && start + limit < sorted.length;
+  return {
+    decisions: page,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+}
+
+export const DECISION_TYPES: DecisionType[] = ["ban", "captcha", "throttle"];
+
+export const DECISION_SCOPES = ["Ip", "Range", "Country", "AS"] as const;
+export type DecisionScope = (typeof DECISION_SCOPES)[number];
+
+// Durations as accepted by the upstream API (Go time.ParseDuration units)
+const DURATION_RE = /^(?=\d)(\d+h)?(\d+m)?(\d+s)?$/;
+
+export type NewDecision = {
+  type: DecisionType;
+  scope: DecisionScope;
+  value: string;
+  duration: string;
+  reason: string;
+};
+
+/**
+ * Validate and canonicalize a manually created decision. Shared by the add
+ * modal and POST /api/decisions so both reject the same input.
+ */
+export function validateNewDecision(
+  input: Partial<Record<keyof NewDecision, unknown>>
+): { decision: NewDecision; error?: undefined } | { error: string } {
+  const text = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+  const type = text(input.type) as DecisionType;
+  const scope = text(input.scope) as DecisionScope;
+  let value = text(input.value);
+  const duration = text(input.duration);
+  const reason = text(input.reason);
+
+  if (!DECISION_TYPES.includes(type)) {
+    return { error: "Type must be ban, captcha or throttle" };
+  }
+  if (!DECISION_SCOPES.includes(scope)) {
+    return { error: "Scope must be Ip, Range, Country or AS" };
+  }
+  switch (scope) {
+    case "Ip":
+      if (!isIp(value)) return { error: "Enter a valid IPv4 or IPv6 address" };
+      break;
+    case "Range":
+      if (!isCidr(value)) {
+        return { error: "Enter a CIDR range such as 192.0.2.0/24" };
+      }
+      break;
+    case "Country":
+      value = value.toUpperCase();
+      if (!/^[A-Z]{2}$/.test(value)) {
+        return { error: "Enter a two-letter ISO country code such as FR" };
+      }
+      break;
+    case "AS":
+      value = value.replace(/^AS/i, "");
+      if (!/^\d{1,10}$/.test(value)) {
+        return { error: "Enter an AS number such as 13335" };
+      }
+      break;
+  }
+  if (!DURATION_RE.test(duration)) {
+    return { error: "Duration must look like 4h, 90m or 1h30m" };
+  }
+  if (!reason) return { error: "A reason is required" };
+  if (reason.length > 255) {
+    return { error: "Reason must be at most 255 characters" };
+  }
+
+  return { decision: { type, scope, value, duration, reason } };
+}
+
+const GO_DURATION_PART_RE = /(\d+(?:\.\d+)?)(ns|us|µs|ms|s|m|h)/g;
+const GO_DURATION_UNITS: Record<string, number> = {
+  ns: 1e-9,
+  us: 1e-6,
+  µs: 1e-6,
+  ms: 1e-3,
+  s: 1,
+  m: 60,
+  h: 3600,
+};
+
+/**
+ * Whole seconds in a Go duration string such as "3h59m12.5s", or null when
+ * it can't be read. Negative durations (already expired) count as zero.
+ */
+export function durationSeconds(text: string): number | null {
+  const body = text.trim().replace(/^-/, "");
+  if (!body || body.replace(GO_DURATION_PART_RE, "") !== "") return null;
+  if (text.trim().startsWith("-")) return 0;
+  let seconds = 0;
+  for (const [, amount, unit] of body.matchAll(GO_DURATION_PART_RE)) {
+    seconds += Number(amount) * GO_DURATION_UNITS[unit];
+  }
+  return Math.floor(seconds);
+}
+
+// Seconds back to the "1h30m" form accepted when creating decisions
+export function formatDuration(seconds: number) {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h ? `${h}h` : ""}${m ? `${m}m` : ""}${s || (!h && !m) ? `${s}s` : ""}`;
+}
+
+export type DecisionUpdate = {
+  type?: DecisionType;
+  duration?: string;
+};
+
+/**
+ * Validate a change to an existing decision: a new type, a new remaining
+ * duration, or both.
+ */
+export function validateDecisionUpdate(
+  input: Partial<Record<keyof DecisionUpdate, unknown>>
+): { update: DecisionUpdate; error?: undefined } | { error: string } {
+  const text = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+  const type = text(input.type) as DecisionType;
+  const duration = text(input.duration);
+  const update: DecisionUpdate = {};
+
+  if (type) {
+    if (!DECISION_TYPES.includes(type)) {
+      return { error: "Type must be ban, captcha or throttle" };
+    }
+    update.type = type;
+  }
+  if (duration) {
+    if (!DURATION_RE.test(duration) || durationSeconds(duration) === 0) {
+      return { error: "Duration must look like 4h, 90m or 1h30m" };
+    }
+    update.duration = duration;
+  }
+  if (!update.type && !update.duration) {
+    return { error: "Nothing to update: set a type or a duration" };
+  }
+  return { update };
+}
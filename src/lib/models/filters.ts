@@ -0,0 +1,222 @@
+import { cidrContains, isCidr, isIp, parseCidr, parseIp } from "@/lib/ip";
+import type { Alert } from "./alert";
+import type { Decision } from "./decision";
+
+// Go-style duration accepted by LAPI for `since` / `until`, e.g. "24h", "7d"
+const DURATION_RE = /^(\d+(ns|us|ms|s|m|h|d))+$/;
+
+// Scenario and origin names, e.g. "crowdsecurity/ssh-bf", "CAPI", "lists:tor"
+const NAME_RE = /^[\w.:/@-]{1,128}$/;
+
+export type AlertFilters = {
+  since?: string;
+  until?: string;
+  ip?: string;
+  range?: string;
+  scenario?: string;
+  origin?: string;
+  hasActiveDecision?: boolean;
+  // Free-text search over the whole alert (message, scenario, AS name...).
+  // Upstream can't search text, so it is applied to the newest alerts it
+  // returns for the other filters
+  q?: string;
+};
+
+/**
+ * Serialize alert filters into the query string understood by /api/alerts.
+ */
+export function alertFiltersToQuery(
+  filters: AlertFilters,
+  query = new URLSearchParams()
+) {
+  const set = (key: string, value: string | undefined) => {
+    if (value) query.set(key, value);
+  };
+  set("since", filters.since);
+  set("until", filters.until);
+  set("ip", filters.ip);
+  set("range", filters.range);
+  set("scenario", filters.scenario);
+  set("origin", filters.origin);
+  set("q", filters.q);
+  if (filters.hasActiveDecision !== undefined) {
+    query.set("has_active_decision", String(filters.hasActiveDecision));
+  }
+  return query;
+}
+
+/**
+ * Parse and validate alert filters from a query string. Returns the first
+ * validation error instead of throwing so routes can map it to a 400.
+ */
+export function alertFiltersFromQuery(
+  query: URLSearchParams
+): { filters: AlertFilters; error?: undefined } | { error: string } {
+  const filters: AlertFilters = {};
+  const get = (key: string) => query.get(key)?.trim() || undefined;
+
+  for (const key of ["since", "until"] as const) {
+    const value = get(key);
+    if (value === undefined) continue;
+    if (!DURATION_RE.test(value)) {
+      return { error: `${key} must be a duration such as 24h or 7d` };
+    }
+    filters[key] = value;
+  }
+
+  const ip = get("ip");
+  if (ip !== undefined) {
+    if (!isIp(ip)) return { error: "ip must be an IPv4 or IPv6 address" };
+    filters.ip = ip;
+  }
+
+  const range = get("range");
+  if (range !== undefined) {
+    if (!isCidr(range)) return { error: "range must be a CIDR range" };
+    filters.range = range;
+  }
+
+  for (const key of ["scenario", "origin"] as const) {
+    const value = get(key);
+    if (value === undefined) continue;
+    if (!NAME_RE.test(value)) return { error: `${key} is not a valid name` };
+    filters[key] = value;
+  }
+
+  const active = get("has_active_decision");
+  if (active !== undefined) {
+    if (active !== "true" && active !== "false") {
+      return { error: "has_active_decision must be true or false" };
+    }
+    filters.hasActiveDecision = active === "true";
+  }
+
+  const q = get("q");
+  if (q !== undefined) {
+    if (q.length > 128) return { error: "q must be at most 128 characters" };
+    filters.q = q;
+  }
+
+  return { filters };
+}
+
+export function matchesAlertSearch(alert: Alert, q: string) {
+  return JSON.stringify(alert).toLowerCase().includes(q.toLowerCase());
+}
+
+const DECISION_NAME_FILTERS = [
+  "type",
+  "scope",
+  "origin",
+  "scenario",
+  "value",
+] as const;
+
+export type DecisionFilters = {
+  type?: string;
+  scope?: string;
+  origin?: string;
+  scenario?: string;
+  // Prefix match on the decision value, e.g. "192.168." or "2001:db8:"
+  value?: string;
+  // CIDR containment: Ip and Range decisions that fall inside this range
+  range?: string;
+  // Free-text search over value, scenario, origin and AS name
+  q?: string;
+  simulated?: boolean;
+};
+
+// Filters that say which decisions are meant; `q` and `simulated` alone
+// don't, so deleting by filter needs one of these
+const DECISION_SCOPE_FILTERS = [...DECISION_NAME_FILTERS, "range"] as const;
+
+export function hasDecisionScopeFilter(filters: DecisionFilters) {
+  return DECISION_SCOPE_FILTERS.some((key) => !!filters[key]);
+}
+
+export function decisionFiltersToQuery(
+  filters: DecisionFilters,
+  query = new URLSearchParams()
+) {
+  for (const key of [...DECISION_NAME_FILTERS, "range", "q"] as const) {
+    const value = filters[key];
+    if (value) query.set(key, value);
+  }
+  if (filters.simulated !== undefined) {
+    query.set("simulated", String(filters.simulated));
+  }
+  return query;
+}
+
+export function decisionFiltersFromQuery(
+  query: URLSearchParams
+): { filters: DecisionFilters; error?: undefined } | { error: string } {
+  const filters: DecisionFilters = {};
+  const get = (key: string) => query.get(key)?.trim() || undefined;
+
+  for (const key of DECISION_NAME_FILTERS) {
+    const value = get(key);
+    if (value === undefined) continue;
+    if (!NAME_RE.test(value)) return { error: `${key} is not a valid value` };
+    filters[key] = value;
+  }
+
+  const range = get("range");
+  if (range !== undefined) {
+    if (!isCidr(range)) return { error: "range must be a CIDR range" };
+    filters.range = range;
+  }
+
+  const q = get("q");
+  if (q !== undefined) {
+    if (q.length > 128) return { error: "q must be at most 128 characters" };
+    filters.q = q;
+  }
+
+  const simulated = get("simulated");
+  if (simulated !== undefined) {
+    if (simulated !== "true" && simulated !== "false") {
+      return { error: "simulated must be true or false" };
+    }
+    filters.simulated = simulated === "true";
+  }
+
+  return { filters };
+}
+
+export function matchesDecisionFilters(
+  decision: Decision,
+  filters: DecisionFilters
+) {
+  const eq = (a: string, b: string | undefined) =>
+    b === undefined || a.toLowerCase() === b.toLowerCase();
+  if (!eq(decision.type, filters.type)) return false;
+  if (!eq(decision.scope, filters.scope)) return false;
+  if (!eq(decision.origin, filters.origin)) return false;
+  if (!eq(decision.scenario, filters.scenario)) return false;
+  if (filters.value && !decision.value.startsWith(filters.value)) return false;
+  if (filters.range) {
+    const outer = parseCidr(filters.range);
+    const inner = parseCidr(decision.value) ?? parseIp(decision.value);
+    if (!outer || !inner || !cidrContains(outer, inner)) return false;
+  }
+  if (
+    filters.simulated !== undefined &&
+    decision.simulated !== filters.simulated
+  ) {
+    return false;
+  }
+  if (filters.q) {
+    const q = filters.q.toLowerCase();
+    const haystack = [
+      decision.value,
+      decision.scenario,
+      decision.origin,
+      decision.asnOrg || "",
+    ];
+    if (!haystack.some((field) => field.toLowerCase().includes(q))) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,327 @@
+import type { AllowlistActivity } from "./activity";
+import { parseAlert, type Alert } from "./alert";
+import {
+  parseAllowlistEntry,
+  type AllowlistEntry,
+  type AllowlistExpiry,
+  type AllowlistGroup,
+  type AllowlistImportResult,
+} from "./allowlist";
+import type { AuditRecord } from "./audit";
+import type {
+  BlocklistImportRow,
+  BlocklistImportStatus,
+} from "./blocklist-import";
+import { parseDecision, type Decision, type DecisionTotals } from "./decision";
+import type { Role } from "./roles";
+import { asRecord, parseList, SchemaContext, type SchemaIssue } from "./schema";
+import type { Statistics } from "./statistics";
+
+export {
+  allowlistActivity,
+  findStaleAllowlistEntries,
+  type AllowlistActivity,
+} from "./activity";
+export {
+  alertTime,
+  parseAlert,
+  type Alert,
+  type AlertEvent,
+  type AlertSource,
+} from "./alert";
+export {
+  DEFAULT_ALLOWLIST_GROUP,
+  findAllowlistOverlaps,
+  parseAllowlistEntry,
+  parseAllowlistImport,
+  validateAllowlistEntryUpdate,
+  validateAllowlistExpiry,
+  validateAllowlistGroup,
+  validateAllowlistIp,
+  validateAllowlistTags,
+  type AllowlistEntry,
+  type AllowlistEntryUpdate,
+  type AllowlistExpiry,
+  type AllowlistGroup,
+  type AllowlistGroupFields,
+  type AllowlistImportResult,
+  type AllowlistImportRow,
+  type AllowlistOverlap,
+} from "./allowlist";
+export {
+  AUDIT_ACTIONS,
+  auditFiltersFromQuery,
+  auditFiltersToQuery,
+  matchesAuditFilters,
+  type AuditAction,
+  type AuditFilters,
+  type AuditRecord,
+  type AuditResult,
+} from "./audit";
+export {
+  classifyBlocklistImport,
+  countBlocklistImport,
+  type BlocklistImportRow,
+  type BlocklistImportStatus,
+} from "./blocklist-import";
+export {
+  allowlistEntryByDecision,
+  decisionsByAllowlistEntry,
+} from "./conflicts";
+export {
+  DECISION_SCOPES,
+  DECISION_TYPES,
+  durationSeconds,
+  formatDuration,
+  paginateDecisions,
+  parseDecision,
+  summarizeDecisions,
+  validateDecisionUpdate,
+  validateNewDecision,
+  type Decision,
+  type DecisionScope,
+  type DecisionTotals,
+  type DecisionType,
+  type DecisionUpdate,
+  type NewDecision,
+} from "./decision";
+export {
+  alertFiltersFromQuery,
+  alertFiltersToQuery,
+  decisionFiltersFromQuery,
+  decisionFiltersToQuery,
+  hasDecisionScopeFilter,
+  matchesAlertSearch,
+  matchesDecisionFilters,
+  type AlertFilters,
+  type DecisionFilters,
+} from "./filters";
+export {
+  hasRole,
+  highestRole,
+  parseRole,
+  requiredRole,
+  ROLES,
+  type Role,
+} from "./roles";
+export { SchemaContext, type SchemaIssue } from "./schema";
+export {
+  parseStatistics,
+  type CountryCount,
+  type DecisionTypeCount,
+  type RecentAlert,
+  type Statistics,
+} from "./statistics";
+
+// Response bodies of the local /api routes. `schemaIssues` is only present
+// when the upstream payload did not match the expected shape.
+export type AlertsResponse = {
+  alerts: Alert[];
+  // Text searches only: how many of the newest alerts were searched, and
+  // whether older ones were left out
+  searched?: number;
+  searchTruncated?: boolean;
+  schemaIssues?: SchemaIssue[];
+};
+export type AlertDetailResponse = {
+  alert: Alert;
+  // Untouched upstream payload, for the raw JSON view
+  raw: unknown;
+  schemaIssues?: SchemaIssue[];
+};
+// One page of decisions. `total` counts every decision matching the
+// filters; `totals` summarizes the whole unfiltered list.
+export type DecisionsResponse = {
+  decisions: Decision[];
+  total: number;
+  nextCursor: number | null;
+  totals: DecisionTotals;
+  // Allowlist entry covering each decision on the page, keyed by decision id
+  allowlisted: Record<number, string>;
+  schemaIssues?: SchemaIssue[];
+};
+export type CreateDecisionResponse = { decision: Decision | null };
+export type UpdateDecisionResponse = CreateDecisionResponse & {
+  replacedId: number;
+};
+
+export type BulkDeleteStatus = "deleted" | "not_found" | "error";
+export type BulkDeleteResult = {
+  id: number;
+  status: BulkDeleteStatus;
+  error?: string;
+};
+export type BulkDeleteResponse = {
+  results: BulkDeleteResult[];
+  deleted: number;
+  notFound: number;
+  failed: number;
+  // Set by the delete-by-filter route
+  matched?: number;
+};
+export type DeleteByFilterPreview = { dryRun: true; matched: number };
+export type AlertFlushResponse = { deleted: number | null };
+
+// Shared by the bulk delete routes, including delete by filter
+export const MAX_BULK_IDS = 1000;
+
+/**
+ * Read the `{ ids: [...] }` body of a bulk delete route, deduplicated.
+ */
+export function bulkDeleteIds(
+  body: unknown
+): { ids: number[]; error?: undefined } | { error: string } {
+  const ids = (body as { ids?: unknown } | null)?.ids;
+  if (!Array.isArray(ids) || ids.length === 0) {
+    return { error: "ids array required" };
+  }
+  if (ids.length > MAX_BULK_IDS) {
+    return { error: `At most ${MAX_BULK_IDS} ids can be deleted at once` };
+  }
+  const numericIds = [...new Set(ids.map(Number))];
+  if (numericIds.some((id) => !Number.isInteger(id))) {
+    return { error: "ids must be numeric ids" };
+  }
+  return { ids: numericIds };
+}
+export type AllowlistResponse = {
+  allowlist: AllowlistEntry[];
+  // Named lists, the default list first
+  groups: AllowlistGroup[];
+  // Entries removed by the expiry sweep, newest first
+  expired: AllowlistExpiry[];
+  schemaIssues?: SchemaIssue[];
+};
+export type AuditResponse = {
+  records: AuditRecord[];
+  total: number;
+  // id to pass as `cursor` for the next (older) page
+  nextCursor: number | null;
+};
+export type BlocklistImportResponse = {
+  dryRun: boolean;
+  rows: BlocklistImportRow[];
+  counts: Partial<Record<BlocklistImportStatus, number>>;
+};
+export type AllowlistActivityResponse = {
+  // Last alert or decision involving each entry, keyed by entry ip
+  activity: Record<string, AllowlistActivity>;
+  // Entries with no activity in the last `staleAfterDays` days
+  stale: string[];
+  staleAfterDays: number;
+  // Set when the alert window hit the fetch limit, so older hits may be
+  // missing
+  truncated: boolean;
+};
+export type UpdateAllowlistResponse = {
+  entry: AllowlistEntry;
+};
+export type AllowlistGroupsResponse = {
+  groups: AllowlistGroup[];
+};
+export type MoveAllowlistEntriesResponse = {
+  group: string;
+  moved: string[];
+};
+export type AllowlistImportResponse = {
+  results: AllowlistImportResult[];
+  added: number;
+  failed: number;
+};
+export type AllowlistConflictsResponse = {
+  // Active decisions overlapping each entry, keyed by entry ip
+  conflicts: Record<string, Decision[]>;
+};
+export type AddAllowlistResponse = {
+  // Outcome of removing the decisions the new entry conflicted with
+  removedDecisions: BulkDeleteResult[];
+};
+// Why POST /api/login refused, when the login page has to react to it
+export type LoginErrorCode =
+  "two_factor_required" | "invalid_two_factor_code" | "locked_out";
+export type LoginErrorResponse = { error: string; code?: LoginErrorCode };
+export type SessionUser = {
+  name: string | null;
+  email: string | null;
+  role: Role;
+  // When the access token stops being accepted, from its `exp` claim or
+  // the lifetime upstream reported when issuing it
+  expiresAt: string | null;
+};
+export type SessionResponse = {
+  authenticated: boolean;
+  user?: SessionUser;
+};
+// Why POST /api/refresh failed: the session is over and the user has to
+// sign in again, or upstream could not refresh it right now
+export type RefreshErrorCode = "session_expired" | "refresh_failed";
+export type RefreshErrorResponse = { error: string; code: RefreshErrorCode };
+export type RefreshResponse = {
+  // False when token refresh is disabled and the current token was kept
+  refreshed: boolean;
+  expiresAt: string | null;
+};
+export type StatisticsResponse = Statistics & { schemaIssues?: SchemaIssue[] };
+
+function listOf(payload: unknown, key: string, ctx: SchemaContext) {
+  if (Array.isArray(payload)) return payload;
+  const rec = asRecord(payload, ctx, "response");
+  const items = rec?.[key];
+  if (Array.isArray(items)) return items;
+  ctx.report(`response.${key}`, items == null ? "missing" : "expected array");
+  return [];
+}
+
+export function parseAlerts(payload: unknown) {
+  const ctx = new SchemaContext();
+  const { items, issues } = parseList(
+    listOf(payload, "alerts", ctx),
+    "alerts",
+    parseAlert,
+    ctx
+  );
+  return { alerts: items, issues };
+}
+
+// A single alert, bare or wrapped as `{ alert: {...} }`
+export function parseAlertDetail(payload: unknown) {
+  const ctx = new SchemaContext();
+  const wrapped = (payload as { alert?: unknown } | null)?.alert;
+  const alert = parseAlert(wrapped ?? payload, ctx, "alert");
+  return { alert, issues: ctx.issues };
+}
+
+export function parseDecisions(payload: unknown) {
+  const ctx = new SchemaContext();
+  const { items, issues } = parseList(
+    listOf(payload, "decisions", ctx),
+    "decisions",
+    parseDecision,
+    ctx
+  );
+  return { decisions: items, issues };
+}
+
+/**
+ * The decision echoed back by a create call. Upstream may answer with the
+ * decision, a list of decisions or nothing at all.
+ */
+export function parseCreatedDecision(payload: unknown): Decision | null {
+  const ctx = new SchemaContext();
+  const rec = payload as { decision?: unknown; decisions?: unknown[] } | null;
+  const candidate = Array.isArray(payload)
+    ? payload[0]
+    : (rec?.decision ?? rec?.decisions?.[0] ?? payload);
+  return candidate ? parseDecision(candidate, ctx, "decision") : null;
+}
+
+export function parseAllowlist(payload: unknown) {
+  const ctx = new SchemaContext();
+  const { items, issues } = parseList(
+    listOf(payload, "allowlist", ctx),
+    "allowlist",
+    parseAllowlistEntry,
+    ctx
+  );
+  return { allowlist: items, issues };
+}
@@ -0,0 +1,47 @@
+/**
+ * Dashboard roles and the access policy shared by the middleware, the API
+ * routes and the UI. Each role includes the ones before it.
+ */
+
+export const ROLES = ["viewer", "operator", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export function parseRole(value: unknown): Role | null {
+  const text = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return ROLES.includes(text as Role) ? (text as Role) : null;
+}
+
+export function hasRole(role: Role | null | undefined, required: Role) {
+  return !!role && ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+// The highest known role in a list, e.g. a token's `roles` claim
+export function highestRole(values: unknown[]): Role | null {
+  let best: Role | null = null;
+  for (const value of values) {
+    const role = parseRole(value);
+    if (role && !hasRole(best, role)) best = role;
+  }
+  return best;
+}
+
+// Admin-only areas: the audit trail and managing the named allowlists
+// themselves (moving entries between lists stays with operators)
+const ADMIN_PATHS = ["/audit", "/api/audit"];
+const ADMIN_MUTATION_RE = /^\/api\/allowlist\/groups(\/[^/]+)?$/;
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Role needed for a page or API request. Viewers can read everything except
+ * the admin areas; any other API method changes state and needs an
+ * operator.
+ */
+export function requiredRole(pathname: string, method = "GET"): Role {
+  if (ADMIN_PATHS.some((p) => pathname === p || pathname.startsWith(`${p}/`))) {
+    return "admin";
+  }
+  if (READ_METHODS.includes(method.toUpperCase())) return "viewer";
+  if (ADMIN_MUTATION_RE.test(pathname)) return "admin";
+  return pathname.startsWith("/api/") ? "operator" : "viewer";
+}
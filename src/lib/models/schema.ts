@@ -0,0 +1,162 @@
+/**
+ * Minimal runtime schema helpers used to normalize upstream payloads.
+ *
+ * Readers never throw: a missing or mistyped field falls back to a default
+ * and records an issue, so drift in the upstream API is reported instead of
+ * silently rendering as "-".
+ */
+
+export type SchemaIssue = {
+  path: string;
+  message: string;
+};
+
+// Cap how many issues are kept per payload so one broken list doesn't
+// produce thousands of identical messages.
+const MAX_ISSUES = 50;
+
+export class SchemaContext {
+  readonly issues: SchemaIssue[] = [];
+  private seen = new Set<string>();
+
+  report(path: string, message: string) {
+    // Collapse array indices so the same drift across rows is reported once
+    const key = `${path.replace(/\[\d+\]/g, "[]")}: ${message}`;
+    if (this.seen.has(key) || this.issues.length >= MAX_ISSUES) return;
+    this.seen.add(key);
+    this.issues.push({ path, message });
+  }
+}
+
+export type Raw = Record<string, unknown>;
+
+type ReadOptions = { required?: boolean };
+
+function describe(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+export function asRecord(
+  value: unknown,
+  ctx: SchemaContext,
+  path: string,
+  { required = true }: ReadOptions = {}
+): Raw | null {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return value as Raw;
+  }
+  if (value !== undefined && value !== null) {
+    ctx.report(path, `expected object, got ${describe(value)}`);
+  } else if (required) {
+    ctx.report(path, "missing");
+  }
+  return null;
+}
+
+export function readString(
+  rec: Raw | null,
+  key: string,
+  ctx: SchemaContext,
+  path: string,
+  { required = false }: ReadOptions = {}
+): string | null {
+  const value = rec?.[key];
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "bigint") {
+    return String(value);
+  }
+  if (value !== undefined && value !== null) {
+    ctx.report(`${path}.${key}`, `expected string, got ${describe(value)}`);
+  } else if (required) {
+    ctx.report(`${path}.${key}`, "missing");
+  }
+  return null;
+}
+
+export function readNumber(
+  rec: Raw | null,
+  key: string,
+  ctx: SchemaContext,
+  path: string,
+  { required = false }: ReadOptions = {}
+): number | null {
+  const value = rec?.[key];
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const n = Number(value);
+    if (Number.isFinite(n)) return n;
+  }
+  if (value !== undefined && value !== null) {
+    ctx.report(`${path}.${key}`, `expected number, got ${describe(value)}`);
+  } else if (required) {
+    ctx.report(`${path}.${key}`, "missing");
+  }
+  return null;
+}
+
+export function readBoolean(
+  rec: Raw | null,
+  key: string,
+  ctx: SchemaContext,
+  path: string
+): boolean {
+  const value = rec?.[key];
+  if (typeof value === "boolean") return value;
+  if (value !== undefined && value !== null) {
+    ctx.report(`${path}.${key}`, `expected boolean, got ${describe(value)}`);
+  }
+  return false;
+}
+
+export function readArray(
+  rec: Raw | null,
+  key: string,
+  ctx: SchemaContext,
+  path: string
+): unknown[] {
+  const value = rec?.[key];
+  if (Array.isArray(value)) return value;
+  if (value !== undefined && value !== null) {
+    ctx.report(`${path}.${key}`, `expected array, got ${describe(value)}`);
+  }
+  return [];
+}
+
+/**
+ * CrowdSec encodes metadata as `[{ key, value }]`; flatten it to a map.
+ */
+export function readMeta(
+  rec: Raw | null,
+  key: string,
+  ctx: SchemaContext,
+  path: string
+): Record<string, string> {
+  const out: Record<string, string> = {};
+  readArray(rec, key, ctx, path).forEach((item, i) => {
+    const itemPath = `${path}.${key}[${i}]`;
+    const entry = asRecord(item, ctx, itemPath);
+    const k = readString(entry, "key", ctx, itemPath, { required: true });
+    if (k) out[k] = readString(entry, "value", ctx, itemPath) ?? "";
+  });
+  return out;
+}
+
+/**
+ * Normalize a list payload with `parseItem`, returning the items together
+ * with every issue found along the way.
+ */
+export function parseList<T>(
+  items: unknown[],
+  path: string,
+  parseItem: (raw: unknown, ctx: SchemaContext, path: string) => T | null,
+  ctx = new SchemaContext()
+): { items: T[]; issues: SchemaIssue[] } {
+  const out: T[] = [];
+  items.forEach((raw, i) => {
+    const item = parseItem(raw, ctx, `${path}[${i}]`);
+    if (item) out.push(item);
+  });
+  return { items: out, issues: ctx.issues };
+}
@@ -0,0 +1,98 @@
+import {
+  asRecord,
+  readArray,
+  readNumber,
+  readString,
+  SchemaContext,
+} from "./schema";
+
+export type CountryCount = { country: string; count: number };
+export type DecisionTypeCount = { type: string; count: number };
+export type RecentAlert = {
+  name: string;
+  ip: string | null;
+  timestamp: string | null;
+};
+
+export type Statistics = {
+  totalAlerts: number;
+  activeDecisions: number;
+  blockedIps: number;
+  successRate: number | null;
+  countryGraph: CountryCount[];
+  decisionsByType: DecisionTypeCount[];
+  topRecentAlerts: RecentAlert[];
+};
+
+function parseCountry(
+  raw: unknown,
+  ctx: SchemaContext,
+  path: string
+): CountryCount | null {
+  const rec = asRecord(raw, ctx, path);
+  if (!rec) return null;
+  // Upstream sends either { country: "US" } or { country: { value: "US" } }
+  const nested = asRecord(rec.country, ctx, `${path}.country`, {
+    required: false,
+  });
+  const country = nested
+    ? readString(nested, "value", ctx, `${path}.country`, { required: true })
+    : readString(rec, "country", ctx, path, { required: true });
+  if (!country || country === "?") return null;
+  return { country, count: readNumber(rec, "count", ctx, path) ?? 0 };
+}
+
+function parseTypeCount(
+  raw: unknown,
+  ctx: SchemaContext,
+  path: string
+): DecisionTypeCount | null {
+  const rec = asRecord(raw, ctx, path);
+  if (!rec) return null;
+  const type = readString(rec, "type", ctx, path, { required: true });
+  if (!type) return null;
+  return { type, count: readNumber(rec, "count", ctx, path) ?? 0 };
+}
+
+function parseRecentAlert(
+  raw: unknown,
+  ctx: SchemaContext,
+  path: string
+): RecentAlert | null {
+  const rec = asRecord(raw, ctx, path);
+  if (!rec) return null;
+  return {
+    name: readString(rec, "name", ctx, path, { required: true }) ?? "",
+    ip: readString(rec, "ip", ctx, path),
+    timestamp: readString(rec, "timestamp", ctx, path),
+  };
+}
+
+function parseItems<T>(
+  rec: Record<string, unknown> | null,
+  key: string,
+  ctx: SchemaContext,
+  parse: (raw: unknown, ctx: SchemaContext, path: string) => T | null
+): T[] {
+  return readArray(rec, key, ctx, "statistics")
+    .map((item, i) => parse(item, ctx, `statistics.${key}[${i}]`))
+    .filter((item): item is T => item !== null);
+}
+
+export function parseStatistics(raw: unknown, ctx = new SchemaContext()) {
+  const rec = asRecord(raw, ctx, "statistics");
+  const path = "statistics";
+  const statistics: Statistics = {
+    totalAlerts:
+      readNumber(rec, "totalAlerts", ctx, path, { required: true }) ?? 0,
+    activeDecisions:
+      readNumber(rec, "activeDecisions", ctx, path, { required: true }) ?? 0,
+    blockedIps:
+      readNumber(rec, "blockedIps", ctx, path, { required: true }) ?? 0,
+    successRate: readNumber(rec, "successRate", ctx, path),
+    countryGraph: parseItems(rec, "countryGraph", ctx, parseCountry),
+    decisionsByType: parseItems(rec, "decisionsByType", ctx, parseTypeCount),
+    topRecentAlerts: parseItems(rec, "topRecentAlerts", ctx, parseRecentAlert),
+  };
+  return { statistics, issues: ctx.issues };
+}
@@ -0,0 +1,143 @@
+import {
+  highestRole,
+  parseRole,
+  type Role,
+  type SessionUser,
+} from "@/lib/models";
+
+/**
+ * Who is behind an `auth_token` cookie, and with which role. Used by the
+ * middleware and the API routes, so it sticks to APIs the edge runtime has.
+ *
+ * Tokens are issued upstream. With AUTH_JWT_SECRET set, HS256 signatures
+ * are checked and a token that fails the check has no claims; otherwise
+ * claims are read as-is for display only. Unverified claims never grant a
+ * role, since some routes only touch local data and upstream never sees
+ * the token there.
+ */
+
+export type TokenClaims = Record<string, unknown>;
+
+const IDENTITY_CLAIMS = ["email", "preferred_username", "name", "sub"];
+
+function decodeSegment(segment: string) {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function hasValidSignature(token: string, secret: string) {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return false;
+  try {
+    const alg = JSON.parse(
+      new TextDecoder().decode(decodeSegment(header))
+    )?.alg;
+    if (alg !== "HS256") return false;
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["verify"]
+    );
+    return await crypto.subtle.verify(
+      "HMAC",
+      key,
+      decodeSegment(signature),
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Claims of a JWT session token, or null for opaque or rejected tokens
+export async function sessionClaims(
+  token: string
+): Promise<TokenClaims | null> {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  const secret = process.env.AUTH_JWT_SECRET;
+  if (secret && !(await hasValidSignature(token, secret))) return null;
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(decodeSegment(payload)));
+    return claims && typeof claims === "object" ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+// The first identity claim present: email, username, display name or subject
+export function claimsSubject(claims: TokenClaims | null) {
+  for (const claim of IDENTITY_CLAIMS) {
+    const value = claims?.[claim];
+    if (typeof value === "string" && value) return value;
+  }
+  return null;
+}
+
+// ROLE_MAPPING="alice@example.com=admin,bob=operator", keyed by any
+// identity claim
+function mappedRole(claims: TokenClaims | null) {
+  const mapping = process.env.ROLE_MAPPING;
+  if (!mapping || !claims) return null;
+  const identities = IDENTITY_CLAIMS.map((c) => claims[c]).filter(
+    (v): v is string => typeof v === "string"
+  );
+  for (const pair of mapping.split(",")) {
+    const [who, role] = pair.split("=").map((s) => s.trim());
+    if (who && identities.includes(who)) return parseRole(role);
+  }
+  return null;
+}
+
+/**
+ * Role for a session: the local ROLE_MAPPING wins, then a `role` or
+ * `roles` claim from the token, then DEFAULT_ROLE (viewer unless set).
+ * Without AUTH_JWT_SECRET the claims could be forged, so none of them
+ * count: every session gets DEFAULT_ROLE, or admin when that is unset too,
+ * which keeps deployments without a secret fully usable.
+ */
+export function claimsRole(claims: TokenClaims | null): Role {
+  const configured = parseRole(process.env.DEFAULT_ROLE);
+  if (!process.env.AUTH_JWT_SECRET) return configured ?? "admin";
+  const claimed = Array.isArray(claims?.roles)
+    ? highestRole(claims.roles)
+    : parseRole(claims?.role);
+  return mappedRole(claims) ?? claimed ?? configured ?? "viewer";
+}
+
+export async function sessionRole(token: string) {
+  return claimsRole(await sessionClaims(token));
+}
+
+/**
+ * The signed-in user as shown in the dashboard. Name and email come from
+ * the token, or from `profile` (the upstream account) when the token
+ * doesn't carry them; the role only ever comes from the token.
+ */
+export function claimsUser(
+  claims: TokenClaims | null,
+  profile: TokenClaims | null = null
+): SessionUser {
+  const read = (source: TokenClaims | null, key: string) => {
+    const value = source?.[key];
+    return typeof value === "string" && value.trim() ? value.trim() : null;
+  };
+  const nameOf = (source: TokenClaims | null) =>
+    read(source, "name") ??
+    ([read(source, "given_name"), read(source, "family_name")]
+      .filter(Boolean)
+      .join(" ") ||
+      read(source, "preferred_username") ||
+      read(source, "userName"));
+  const exp = claims?.exp;
+  return {
+    name: nameOf(claims) ?? nameOf(profile),
+    email: read(claims, "email") ?? read(profile, "email"),
+    role: claimsRole(claims),
+    expiresAt:
+      typeof exp === "number" ? new Date(exp * 1000).toISOString() : null,
+  };
+}
@@ -0,0 +1,80 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Small JSON-file store for state the upstream API has no place for
+ * (allowlist expiry and the like). Server-only: never import from pages.
+ *
+ * Each file is read and written whole; writes go through a temp file and a
+ * rename so a crash never leaves half a document behind, and updates to
+ * the same file are serialized within the process.
+ */
+
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data");
+
+const queues = new Map<string, Promise<unknown>>();
+
+function fileFor(name: string) {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(fileFor(name), "utf8")) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw err;
+  }
+}
+
+async function writeJson(name: string, value: unknown) {
+  const file = fileFor(name);
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2));
+  await fs.rename(tmp, file);
+}
+
+/**
+ * Fail at startup when the data directory can't be written, instead of
+ * losing every audit record and allowlist expiry to a logged write error.
+ */
+export async function assertStoreWritable() {
+  const probe = path.join(DATA_DIR, `.write-check.${process.pid}`);
+  try {
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    await fs.writeFile(probe, "");
+    await fs.rm(probe);
+  } catch (err) {
+    throw new Error(
+      `DATA_DIR ${DATA_DIR} is not writable: ${(err as Error).message}`
+    );
+  }
+}
+
+/**
+ * Read-modify-write one file. `update` receives the current value (or the
+ * fallback) and returns the value to store.
+ */
+export function updateJson<T>(
+  name: string,
+  fallback: T,
+  update: (value: T) => T | Promise<T>
+): Promise<T> {
+  const previous = queues.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const value = await update(await readJson(name, fallback));
+      await writeJson(name, value);
+      return value;
+    });
+  queues.set(name, next);
+  // Let the queue entry go once nothing is waiting behind it
+  next
+    .catch(() => undefined)
+    .then(() => {
+      if (queues.get(name) === next) queues.delete(name);
+    });
+  return next;
+}
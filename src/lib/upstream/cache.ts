@@ -0,0 +1,51 @@
+import { createHash } from "crypto";
+
+type Entry = { expires: number; value: Promise<unknown> };
+
+// Short-lived, per-process memo for expensive upstream list calls (the
+// decision list can be tens of thousands of rows). Keys are namespaced by
+// resource so mutations can drop every cached copy of that resource.
+const entries = new Map<string, Entry>();
+
+const MAX_ENTRIES = 100;
+
+function tokenKey(token: string) {
+  return createHash("sha256").update(token).digest("hex").slice(0, 16);
+}
+
+export function cacheKey(resource: string, token: string, extra = "") {
+  return `${resource}:${tokenKey(token)}:${extra}`;
+}
+
+export function cached<T>(
+  key: string,
+  ttlMs: number,
+  load: () => Promise<T>
+): Promise<T> {
+  const now = Date.now();
+  const hit = entries.get(key);
+  if (hit && hit.expires > now) return hit.value as Promise<T>;
+
+  if (entries.size >= MAX_ENTRIES) {
+    for (const [k, e] of entries) {
+      if (e.expires <= now) entries.delete(k);
+    }
+    if (entries.size >= MAX_ENTRIES) {
+      entries.delete(entries.keys().next().value as string);
+    }
+  }
+
+  const value = load();
+  entries.set(key, { expires: now + ttlMs, value });
+  // Never keep a failed load around
+  value.catch(() => {
+    if (entries.get(key)?.value === value) entries.delete(key);
+  });
+  return value;
+}
+
+export function invalidate(resource: string) {
+  for (const key of entries.keys()) {
+    if (key.startsWith(`${resource}:`)) entries.delete(key);
+  }
+}
@@ -0,0 +1,245 @@
+import { cookies } from "next/headers";
+import { randomUUID } from "crypto";
+
+import { mapWithConcurrency } from "@/lib/concurrency";
+import type { AlertFilters, BulkDeleteResult, NewDecision } from "@/lib/models";
+import { cached, cacheKey, invalidate } from "./cache";
+import { UpstreamError } from "./errors";
+import {
+  getApiBase,
+  upstreamRequest,
+  type UpstreamContext,
+  type UpstreamRequest,
+} from "./request";
+
+// Raw upstream payloads. Fields are left loose on purpose: the upstream
+// API wraps CrowdSec LAPI objects whose shape varies between versions.
+export type RawAlertsResponse = { alerts?: unknown[] } & Record<
+  string,
+  unknown
+>;
+export type RawDecisionsResponse = { decisions?: unknown[] } & Record<
+  string,
+  unknown
+>;
+export type RawAllowlistResponse =
+  unknown[] | ({ allowlist?: unknown[] } & Record<string, unknown>);
+export type RawStatisticsResponse = Record<string, unknown>;
+
+export type AlertListParams = AlertFilters & {
+  limit?: number;
+};
+
+// How long a fetched decision list is reused across page requests
+const DECISIONS_CACHE_TTL_MS = 15_000;
+
+// The allowlist is also read to flag decisions it covers
+const ALLOWLIST_CACHE_TTL_MS = 15_000;
+
+// How long a session the upstream API accepted is trusted without asking
+const SESSION_CACHE_TTL_MS = 30_000;
+
+// Any endpoint that rejects a bad token will do; the profile is preferred
+const SESSION_CHECK_PATH =
+  process.env.API_PROFILE_PATH || process.env.API_VALIDATE_PATH || "/validate";
+
+// Upstream deletes in flight at once during bulk deletes
+const BULK_DELETE_CONCURRENCY =
+  Number(process.env.BULK_DELETE_CONCURRENCY) || 5;
+
+export function createUpstreamClient(ctx: UpstreamContext) {
+  const request = <T>(req: UpstreamRequest) => upstreamRequest<T>(ctx, req);
+
+  // Delete with bounded concurrency, settling each id on its own so one
+  // failure doesn't abort the rest
+  const deleteEach = (
+    ids: number[],
+    deleteOne: (id: number) => Promise<unknown>
+  ) =>
+    mapWithConcurrency(
+      ids,
+      BULK_DELETE_CONCURRENCY,
+      async (id): Promise<BulkDeleteResult> => {
+        try {
+          await deleteOne(id);
+          return { id, status: "deleted" };
+        } catch (err) {
+          if (err instanceof UpstreamError && err.upstreamStatus === 404) {
+            return { id, status: "not_found" };
+          }
+          // A revoked session fails every remaining call the same way
+          if (err instanceof UpstreamError && err.code === "unauthorized") {
+            throw err;
+          }
+          return { id, status: "error", error: (err as Error).message };
+        }
+      }
+    );
+
+  // Upstream drops an alert's decisions along with it
+  const deleteAlert = async (id: string | number) => {
+    const result = await request<unknown>({
+      method: "DELETE",
+      path: `/api/alerts/${encodeURIComponent(String(id))}`,
+    });
+    invalidate("decisions");
+    return result;
+  };
+
+  const deleteDecision = async (id: string | number) => {
+    const result = await request<unknown>({
+      method: "DELETE",
+      path: `/decisions/${encodeURIComponent(String(id))}`,
+    });
+    invalidate("decisions");
+    return result;
+  };
+
+  return {
+    requestId: ctx.requestId,
+
+    alerts: {
+      list: ({ limit, hasActiveDecision, ...filters }: AlertListParams = {}) =>
+        request<RawAlertsResponse>({
+          path: "/api/alerts",
+          query: {
+            ...filters,
+            has_active_decision: hasActiveDecision,
+            limit: limit ?? 10,
+          },
+        }),
+      get: (id: string | number) =>
+        request<unknown>({
+          path: `/api/alerts/${encodeURIComponent(String(id))}`,
+        }),
+      delete: deleteAlert,
+      deleteMany: (ids: number[]) => deleteEach(ids, deleteAlert),
+      // Flush every alert matching the filters in one upstream call
+      deleteMatching: async ({
+        hasActiveDecision,
+        ...filters
+      }: AlertFilters) => {
+        const result = await request<unknown>({
+          method: "DELETE",
+          path: "/api/alerts",
+          query: { ...filters, has_active_decision: hasActiveDecision },
+        });
+        invalidate("decisions");
+        return result;
+      },
+    },
+
+    decisions: {
+      // Upstream has no paging, so the full list is cached briefly and
+      // paged locally by the route
+      list: () =>
+        cached(cacheKey("decisions", ctx.token), DECISIONS_CACHE_TTL_MS, () =>
+          request<RawDecisionsResponse>({ path: "/api/decisions" })
+        ),
+      // scenario and origin are only sent when re-creating an existing
+      // decision, so the replacement stays linked to what triggered it
+      create: async (
+        decision: NewDecision & { scenario?: string; origin?: string }
+      ) => {
+        const result = await request<unknown>({
+          method: "POST",
+          path: "/api/decisions",
+          body: decision,
+        });
+        invalidate("decisions");
+        return result;
+      },
+      // Several decisions in one call: upstream takes an array on the same
+      // endpoint and creates them together
+      createMany: async (decisions: NewDecision[]) => {
+        const result = await request<unknown>({
+          method: "POST",
+          path: "/api/decisions",
+          body: decisions,
+        });
+        invalidate("decisions");
+        return result;
+      },
+      delete: deleteDecision,
+      deleteMany: (ids: number[]) => deleteEach(ids, deleteDecision),
+    },
+
+    allowlist: {
+      list: () =>
+        cached(cacheKey("allowlist", ctx.token), ALLOWLIST_CACHE_TTL_MS, () =>
+          request<RawAllowlistResponse>({ path: "/api/allowlist" })
+        ),
+      add: async (ip: string, reason?: string, expiresAt?: string | null) => {
+        const result = await request<unknown>({
+          method: "POST",
+          path: `/api/allowlist/${encodeURIComponent(ip)}`,
+          body: { reason, expires_at: expiresAt ?? undefined },
+        });
+        invalidate("allowlist");
+        return result;
+      },
+      remove: async (ip: string) => {
+        const result = await request<unknown>({
+          method: "DELETE",
+          path: `/api/allowlist/${encodeURIComponent(ip)}`,
+        });
+        invalidate("allowlist");
+        return result;
+      },
+    },
+
+    // Routes that serve only local data (the audit log) never call upstream
+    // otherwise, so they check the token here first
+    session: {
+      verify: () =>
+        cached(cacheKey("session", ctx.token), SESSION_CACHE_TTL_MS, () =>
+          request<unknown>({ path: SESSION_CHECK_PATH })
+        ),
+    },
+
+    statistics: {
+      get: () => request<RawStatisticsResponse>({ path: "/api/statistics" }),
+    },
+  };
+}
+
+export type UpstreamClient = ReturnType<typeof createUpstreamClient>;
+
+/**
+ * Build a client for the current request from the `auth_token` cookie.
+ * Throws UpstreamError when the user is not signed in or API_BASE is unset.
+ */
+export async function getUpstreamClient(
+  req?: Request
+): Promise<UpstreamClient> {
+  const requestId = req?.headers.get("x-request-id") || randomUUID();
+  const token = (await cookies()).get("auth_token")?.value;
+  if (!token) {
+    throw new UpstreamError("unauthorized", "Unauthorized", { requestId });
+  }
+  const base = getApiBase();
+  if (!base) {
+    throw new UpstreamError("not_configured", "API_BASE is not configured", {
+      requestId,
+    });
+  }
+  return createUpstreamClient({ base, token, requestId });
+}
+
+/**
+ * Client for unattended endpoints (the blocklist feed) that are called
+ * without a dashboard session. Uses the UPSTREAM_SERVICE_TOKEN credential.
+ */
+export function getServiceUpstreamClient(req?: Request): UpstreamClient {
+  const requestId = req?.headers.get("x-request-id") || randomUUID();
+  const token = process.env.UPSTREAM_SERVICE_TOKEN;
+  const base = getApiBase();
+  if (!token || !base) {
+    throw new UpstreamError(
+      "not_configured",
+      "API_BASE and UPSTREAM_SERVICE_TOKEN must be configured",
+      { requestId }
+    );
+  }
+  return createUpstreamClient({ base, token, requestId });
+}
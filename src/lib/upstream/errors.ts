@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+
+export type UpstreamErrorCode =
+  | "unauthorized"
+  | "forbidden"
+  | "not_configured"
+  | "bad_request"
+  | "not_found"
+  | "timeout"
+  | "network_error"
+  | "upstream_error"
+  | "invalid_response";
+
+/**
+ * Error envelope returned by every proxy route. `error` carries the
+ * human-readable message so existing `data.error` readers keep working.
+ */
+export type ApiErrorBody = {
+  error: string;
+  code: UpstreamErrorCode;
+  upstreamStatus: number | null;
+  requestId: string | null;
+};
+
+export class UpstreamError extends Error {
+  readonly code: UpstreamErrorCode;
+  readonly status: number;
+  readonly upstreamStatus: number | null;
+  readonly requestId: string | null;
+
+  constructor(
+    code: UpstreamErrorCode,
+    message: string,
+    options: {
+      status?: number;
+      upstreamStatus?: number | null;
+      requestId?: string | null;
+    } = {}
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+    this.code = code;
+    this.upstreamStatus = options.upstreamStatus ?? null;
+    this.status = options.status ?? statusForCode(code, this.upstreamStatus);
+    this.requestId = options.requestId ?? null;
+  }
+
+  toJSON(): ApiErrorBody {
+    return {
+      error: this.message,
+      code: this.code,
+      upstreamStatus: this.upstreamStatus,
+      requestId: this.requestId,
+    };
+  }
+}
+
+function statusForCode(
+  code: UpstreamErrorCode,
+  upstreamStatus: number | null
+): number {
+  switch (code) {
+    case "unauthorized":
+      return 401;
+    case "forbidden":
+      return 403;
+    case "bad_request":
+      return 400;
+    case "not_found":
+      return 404;
+    case "not_configured":
+      return 500;
+    case "timeout":
+      return 504;
+    case "network_error":
+    case "invalid_response":
+      return 502;
+    case "upstream_error":
+      return upstreamStatus ?? 502;
+  }
+}
+
+/**
+ * Convert anything thrown inside a route handler into the JSON error envelope.
+ */
+export function errorResponse(err: unknown, requestId?: string) {
+  const error =
+    err instanceof UpstreamError
+      ? err
+      : new UpstreamError(
+          "upstream_error",
+          (err as Error)?.message || "Unexpected error",
+          { status: 500, requestId }
+        );
+  if (error.status >= 500) {
+    console.error("[UPSTREAM]", error.code, error.message, {
+      upstreamStatus: error.upstreamStatus,
+      requestId: error.requestId,
+    });
+  }
+  return NextResponse.json(
+    { ...error.toJSON(), requestId: error.requestId ?? requestId ?? null },
+    { status: error.status }
+  );
+}
@@ -0,0 +1,49 @@
+import type { NextRequest } from "next/server";
+
+import { hasRole, requiredRole } from "@/lib/models";
+import { sessionRole } from "@/lib/session";
+import { getUpstreamClient, type UpstreamClient } from "./client";
+import { errorResponse, UpstreamError } from "./errors";
+
+type RouteContext<P> = { params: Promise<P> };
+
+type UpstreamHandler<P> = (
+  api: UpstreamClient,
+  req: NextRequest,
+  params: P
+) => Promise<Response>;
+
+/**
+ * Wrap a proxy route handler: resolves the upstream client from the session
+ * cookie, checks the session's role against the access policy for the
+ * route and method, awaits route params and turns any thrown error into the
+ * JSON error envelope.
+ */
+export function withUpstream<P = Record<string, never>>(
+  handler: UpstreamHandler<P>
+) {
+  return async (req: NextRequest, context: RouteContext<P>) => {
+    let api: UpstreamClient | undefined;
+    try {
+      api = await getUpstreamClient(req);
+      await requireRole(req, api.requestId);
+      return await handler(api, req, await context.params);
+    } catch (err) {
+      return errorResponse(err, api?.requestId);
+    }
+  };
+}
+
+async function requireRole(req: NextRequest, requestId: string) {
+  const required = requiredRole(req.nextUrl.pathname, req.method);
+  if (required === "viewer") return;
+  const token = req.cookies.get("auth_token")?.value;
+  const role = token ? await sessionRole(token) : null;
+  if (!hasRole(role, required)) {
+    throw new UpstreamError(
+      "forbidden",
+      `This action requires the ${required} role`,
+      { requestId }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+export {
+  createUpstreamClient,
+  getServiceUpstreamClient,
+  getUpstreamClient,
+  type AlertListParams,
+  type RawAlertsResponse,
+  type RawAllowlistResponse,
+  type RawDecisionsResponse,
+  type RawStatisticsResponse,
+  type UpstreamClient,
+} from "./client";
+export {
+  errorResponse,
+  UpstreamError,
+  type ApiErrorBody,
+  type UpstreamErrorCode,
+} from "./errors";
+export { withUpstream } from "./handler";
+export { getApiBase } from "./request";
+export { bulkDeleteResponse, normalizedResponse } from "./normalize";
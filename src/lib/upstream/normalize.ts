@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import type {
+  BulkDeleteResponse,
+  BulkDeleteResult,
+  SchemaIssue,
+} from "@/lib/models";
+
+/**
+ * Respond with a normalized payload, attaching and logging any schema drift
+ * found while parsing the upstream response.
+ */
+export function normalizedResponse<T extends object>(
+  body: T,
+  issues: SchemaIssue[],
+  requestId: string
+) {
+  if (issues.length === 0) return NextResponse.json(body);
+  console.warn("[SCHEMA] Upstream payload drift", { requestId, issues });
+  return NextResponse.json({ ...body, schemaIssues: issues });
+}
+
+/**
+ * Summarize per-id bulk delete outcomes; 207 Multi-Status when some failed.
+ */
+export function bulkDeleteResponse(
+  results: BulkDeleteResult[],
+  extra: Record<string, unknown> = {}
+) {
+  const count = (status: BulkDeleteResult["status"]) =>
+    results.filter((r) => r.status === status).length;
+  const body: BulkDeleteResponse = {
+    results,
+    deleted: count("deleted"),
+    notFound: count("not_found"),
+    failed: count("error"),
+  };
+  return NextResponse.json(
+    { ...extra, ...body },
+    { status: body.failed > 0 ? 207 : 200 }
+  );
+}
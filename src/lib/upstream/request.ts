@@ -0,0 +1,160 @@
+import { UpstreamError } from "./errors";
+
+// Per-attempt timeout for upstream calls
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+// Extra attempts for idempotent GETs (total attempts = retries + 1)
+const DEFAULT_GET_RETRIES = 2;
+
+const RETRY_BASE_DELAY_MS = 250;
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export type UpstreamRequest = {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  path: string;
+  query?: Record<string, QueryValue | QueryValue[]>;
+  body?: unknown;
+  timeoutMs?: number;
+  retries?: number;
+};
+
+export type UpstreamContext = {
+  base: string;
+  token: string;
+  requestId: string;
+};
+
+export function getApiBase(): string | undefined {
+  return process.env.API_BASE || process.env.NEXT_PUBLIC_API_BASE;
+}
+
+function envNumber(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function buildUrl(
+  base: string,
+  path: string,
+  query?: UpstreamRequest["query"]
+) {
+  const url = new URL(`${base.replace(/\/+$/, "")}${path}`);
+  for (const [key, raw] of Object.entries(query || {})) {
+    const values = Array.isArray(raw) ? raw : [raw];
+    for (const value of values) {
+      if (value === undefined || value === null || value === "") continue;
+      url.searchParams.append(key, String(value));
+    }
+  }
+  return url.toString();
+}
+
+// Upstream errors come back as JSON ({ error } / { message }) or plain text
+function extractMessage(text: string, fallback: string) {
+  if (!text) return fallback;
+  try {
+    const data = JSON.parse(text);
+    const message = data?.error ?? data?.message;
+    if (typeof message === "string" && message) return message;
+  } catch {}
+  return text.trim().slice(0, 500) || fallback;
+}
+
+function isRetryable(err: unknown) {
+  if (!(err instanceof UpstreamError)) return false;
+  if (err.code === "timeout" || err.code === "network_error") return true;
+  return (
+    err.code === "upstream_error" &&
+    (err.upstreamStatus === 429 || (err.upstreamStatus ?? 0) >= 500)
+  );
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function attempt(ctx: UpstreamContext, req: UpstreamRequest) {
+  const method = req.method || "GET";
+  const timeoutMs =
+    req.timeoutMs ?? envNumber("API_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${ctx.token}`,
+    "X-Request-Id": ctx.requestId,
+  };
+  if (req.body !== undefined) headers["Content-Type"] = "application/json";
+
+  let res: Response;
+  try {
+    res = await fetch(buildUrl(ctx.base, req.path, req.query), {
+      method,
+      headers,
+      body: req.body !== undefined ? JSON.stringify(req.body) : undefined,
+      cache: "no-store",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (err) {
+    const name = (err as Error)?.name;
+    if (name === "TimeoutError" || name === "AbortError") {
+      throw new UpstreamError(
+        "timeout",
+        `Upstream did not respond within ${timeoutMs}ms`,
+        { requestId: ctx.requestId }
+      );
+    }
+    throw new UpstreamError(
+      "network_error",
+      (err as Error)?.message || "Upstream unreachable",
+      { requestId: ctx.requestId }
+    );
+  }
+
+  const requestId = res.headers.get("x-request-id") || ctx.requestId;
+  const text = await res.text();
+
+  if (!res.ok) {
+    throw new UpstreamError(
+      res.status === 401 ? "unauthorized" : "upstream_error",
+      extractMessage(text, res.statusText || `Upstream returned ${res.status}`),
+      { upstreamStatus: res.status, requestId }
+    );
+  }
+
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw new UpstreamError(
+      "invalid_response",
+      "Upstream returned a non-JSON response",
+      { upstreamStatus: res.status, requestId }
+    );
+  }
+}
+
+/**
+ * Perform one upstream call. GETs are retried with exponential backoff on
+ * timeouts, network errors, 429 and 5xx; other methods are attempted once.
+ */
+export async function upstreamRequest<T = unknown>(
+  ctx: UpstreamContext,
+  req: UpstreamRequest
+): Promise<T> {
+  const method = req.method || "GET";
+  const retries =
+    method === "GET"
+      ? (req.retries ?? envNumber("API_GET_RETRIES", DEFAULT_GET_RETRIES))
+      : 0;
+
+  for (let i = 0; ; i++) {
+    try {
+      return (await attempt(ctx, req)) as T;
+    } catch (err) {
+      if (i >= retries || !isRetryable(err)) throw err;
+      console.log("[UPSTREAM] Retrying", method, req.path, {
+        attempt: i + 1,
+        code: (err as UpstreamError).code,
+        requestId: ctx.requestId,
+      });
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** i);
+    }
+  }
+}